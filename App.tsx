@@ -1,16 +1,82 @@
-import React, { useState } from 'react';
+import React, { useEffect, useRef, useState } from 'react';
+import { AlertTriangle, Star } from 'lucide-react';
 import { Layout } from './components/Layout';
 import { WhaleWatch } from './components/WhaleWatch';
 import { SqueezeScanner } from './components/SqueezeScanner';
 import { DepthVisualizer } from './components/DepthVisualizer';
+import { StreamHealthBadge } from './components/StreamHealthBadge';
+import { SessionControls } from './components/SessionControls';
+import { LiquidationFeed } from './components/LiquidationFeed';
+import { FundingPanel } from './components/FundingPanel';
+import { LiquidityHeatmap } from './components/LiquidityHeatmap';
+import { AlertsPanel } from './components/AlertsPanel';
+import { MarketWhaleTape } from './components/MarketWhaleTape';
+import { Workspace } from './components/Workspace';
+import { AlertEngine } from './services/alertEngine';
+import { SymbolRegistry } from './services/symbolRegistry';
+import { DEFAULT_EXCHANGE } from './services/exchanges';
+import { useSymbolInfo } from './hooks/useSymbolInfo';
+import { useActiveWatchlist } from './hooks/useWatchlist';
+import { useUrlParam } from './hooks/useUrlParam';
+import { Watchlists } from './services/watchlist';
+import { UrlState } from './services/urlState';
+
+const DEFAULT_SYMBOL = 'BTCUSDT';
+
+const TABS = ['dashboard', 'whales', 'scanner', 'tape', 'depth', 'heatmap', 'liquidations', 'funding', 'alerts'];
 
 const App: React.FC = () => {
-  const [activeTab, setActiveTab] = useState('dashboard');
-  const [selectedSymbol, setSelectedSymbol] = useState('BTCUSDT');
+  // Tab and symbol live in the URL: each change is a history entry, and links open the same view
+  const [activeTab, setActiveTab] = useUrlParam('tab', 'dashboard', { allowed: TABS });
+  const [urlSymbol, setSelectedSymbol] = useUrlParam('symbol', DEFAULT_SYMBOL);
+  // A linked symbol the venue does not list, shown as an error while the default is opened instead
+  const [rejectedSymbol, setRejectedSymbol] = useState<{ symbol: string; error: string } | null>(null);
+  const urlSymbolError = rejectedSymbol && rejectedSymbol.symbol === urlSymbol ? rejectedSymbol.error : null;
+  const selectedSymbol = urlSymbolError ? DEFAULT_SYMBOL : urlSymbol.toUpperCase();
+  const [symbolInput, setSymbolInput] = useState(selectedSymbol);
+  const [symbolError, setSymbolError] = useState<string | null>(null);
+  const symbolInputRef = useRef(symbolInput);
+  symbolInputRef.current = symbolInput;
+  const symbolInfo = useSymbolInfo(selectedSymbol, DEFAULT_EXCHANGE);
+  const watchlist = useActiveWatchlist();
+  const isWatched = watchlist.symbols.includes(selectedSymbol);
+
+  // Alerts run whichever tab is open
+  useEffect(() => AlertEngine.start(), []);
+
+  // Symbols picked in the app are already validated; this catches hand-edited and stale links
+  useEffect(() => {
+    SymbolRegistry.validate(DEFAULT_EXCHANGE, urlSymbol).then(error => {
+      if (error) setRejectedSymbol({ symbol: urlSymbol, error });
+    });
+  }, [urlSymbol]);
+
+  // Symbols picked elsewhere (scanner rows, sessions) replace whatever was typed
+  useEffect(() => {
+    setSymbolInput(selectedSymbol);
+    setSymbolError(null);
+  }, [selectedSymbol]);
+
+  // One history entry for the symbol and tab change together
+  const openOnDashboard = (symbol: string) => {
+    UrlState.set({ symbol: symbol === DEFAULT_SYMBOL ? null : symbol, tab: null });
+  };
 
   // Input handler for symbol change
   const handleSymbolChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-    setSelectedSymbol(e.target.value.toUpperCase());
+    setSymbolInput(e.target.value.toUpperCase());
+    setSymbolError(null);
+  };
+
+  // Panels only switch once the venue confirms the symbol, so typos never open dead streams
+  const submitSymbol = () => {
+    const candidate = symbolInput.trim();
+    if (candidate === selectedSymbol) return;
+    SymbolRegistry.validate(DEFAULT_EXCHANGE, candidate).then(error => {
+      if (symbolInputRef.current.trim() !== candidate) return; // Typed over while validating
+      if (error) setSymbolError(error);
+      else setSelectedSymbol(candidate);
+    });
   };
 
   return (
@@ -25,50 +91,105 @@ const App: React.FC = () => {
               <span className="text-terminal-muted font-mono text-sm px-3">SYM:</span>
               <input 
                 type="text" 
-                value={selectedSymbol}
+                value={symbolInput}
                 onChange={handleSymbolChange}
-                className="bg-transparent text-white font-bold font-mono outline-none w-24 uppercase"
+                onKeyDown={(e) => { if (e.key === 'Enter') submitSymbol(); }}
+                onBlur={submitSymbol}
+                className={`bg-transparent font-bold font-mono outline-none w-24 uppercase ${symbolError ? 'text-terminal-red' : 'text-white'}`}
               />
+              <button
+                onClick={() => (isWatched ? Watchlists.removeSymbol(watchlist.id, selectedSymbol) : Watchlists.addSymbol(watchlist.id, selectedSymbol))}
+                title={isWatched ? `Remove from ${watchlist.name}` : `Add to ${watchlist.name}`}
+                className="px-2 text-terminal-muted hover:text-terminal-yellow transition-colors"
+              >
+                <Star size={14} className={isWatched ? 'fill-terminal-yellow text-terminal-yellow' : ''} />
+              </button>
             </div>
           </div>
-          <div className="text-xs text-terminal-muted">
-            Viewing <span className="text-white font-bold">{selectedSymbol}</span> Analytics
-          </div>
+          {symbolError || urlSymbolError ? (
+            <div className="text-xs text-terminal-red flex items-center gap-1">
+              <AlertTriangle size={12} /> {symbolError ?? urlSymbolError}
+            </div>
+          ) : (
+            <div className="text-xs text-terminal-muted">
+              Viewing <span className="text-white font-bold">{selectedSymbol}</span> Analytics
+              {symbolInfo && (
+                <span className="ml-2 font-mono text-[10px]">
+                  {symbolInfo.contractType === 'perpetual' ? 'PERP' : 'DELIVERY'} · listed {new Date(symbolInfo.onboardDate).toLocaleDateString()}
+                </span>
+              )}
+            </div>
+          )}
         </div>
-        <div className="flex gap-2 text-[10px] text-terminal-muted font-mono">
-          <span className="flex items-center gap-1"><span className="w-2 h-2 rounded-full bg-terminal-green"></span> Live Conn</span>
-          <span className="flex items-center gap-1"><span className="w-2 h-2 rounded-full bg-terminal-yellow"></span> Delay: 50ms</span>
+        <div className="flex items-center gap-4">
+          <SessionControls onSelectSymbol={setSelectedSymbol} />
+          <StreamHealthBadge />
         </div>
       </div>
 
       {activeTab === 'dashboard' && (
+        <div className="h-[calc(100vh-180px)] min-h-[600px]">
+          <Workspace symbol={selectedSymbol} onSelectSymbol={setSelectedSymbol} />
+        </div>
+      )}
+
+      {activeTab === 'whales' && (
+        <div className="h-[calc(100vh-180px)]">
+            <WhaleWatch symbol={selectedSymbol} syncUrl />
+        </div>
+      )}
+
+      {activeTab === 'scanner' && (
+        <div className="h-[calc(100vh-180px)]">
+            <SqueezeScanner onSelectSymbol={openOnDashboard} />
+        </div>
+      )}
+      
+      {activeTab === 'tape' && (
         <div className="grid grid-cols-1 lg:grid-cols-12 gap-6 h-[calc(100vh-180px)] min-h-[600px]">
-          {/* Left Column: Scanner (Top Squeezes) */}
-          <div className="lg:col-span-3 h-full">
-            <SqueezeScanner onSelectSymbol={setSelectedSymbol} />
+          {/* The scanner stays open here so the tape can follow its picks */}
+          <div className="lg:col-span-4 h-full">
+            <SqueezeScanner onSelectSymbol={openOnDashboard} />
           </div>
-
-          {/* Middle Column: Depth Visualizer (The Walls) */}
-          <div className="lg:col-span-5 h-full">
-            <DepthVisualizer symbol={selectedSymbol} />
+          <div className="lg:col-span-8 h-full">
+            <MarketWhaleTape onSelectSymbol={openOnDashboard} />
           </div>
+        </div>
+      )}
 
-          {/* Right Column: Live Whale Feed */}
+      {activeTab === 'liquidations' && (
+        <div className="h-[calc(100vh-180px)]">
+            <LiquidationFeed symbol={selectedSymbol} onSelectSymbol={openOnDashboard} />
+        </div>
+      )}
+
+      {activeTab === 'funding' && (
+        <div className="grid grid-cols-1 lg:grid-cols-12 gap-6 h-[calc(100vh-180px)] min-h-[600px]">
+          {/* Candidates on the left, their funding persistence on the right */}
           <div className="lg:col-span-4 h-full">
-            <WhaleWatch symbol={selectedSymbol} />
+            <SqueezeScanner onSelectSymbol={setSelectedSymbol} />
+          </div>
+          <div className="lg:col-span-8 h-full">
+            <FundingPanel symbol={selectedSymbol} />
           </div>
         </div>
       )}
 
-      {activeTab === 'scanner' && (
+      {activeTab === 'depth' && (
         <div className="h-[calc(100vh-180px)]">
-            <SqueezeScanner onSelectSymbol={(sym) => { setSelectedSymbol(sym); setActiveTab('dashboard'); }} />
+            <DepthVisualizer symbol={selectedSymbol} syncUrl />
         </div>
       )}
-      
-      {activeTab === 'depth' && (
+
+      {activeTab === 'heatmap' && (
+        <div className="h-[calc(100vh-180px)]">
+            <LiquidityHeatmap symbol={selectedSymbol} />
+        </div>
+      )}
+
+      {activeTab === 'alerts' && (
         <div className="h-[calc(100vh-180px)]">
-            <DepthVisualizer symbol={selectedSymbol} />
+            <AlertsPanel symbol={selectedSymbol} />
         </div>
       )}
 
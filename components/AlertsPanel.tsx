@@ -0,0 +1,260 @@
+import React, { useState } from 'react';
+import { Bell, BellOff, Pencil, Plus, Trash2, Volume2, X } from 'lucide-react';
+import { AlertDirection, AlertRule, AlertRuleType, WallSide } from '../types';
+import { AlertRules, describeRule } from '../services/alertRules';
+import { createId } from '../services/store';
+import { AlertHistory } from '../services/alertHistory';
+import { SymbolRegistry } from '../services/symbolRegistry';
+import { DEFAULT_EXCHANGE } from '../services/exchanges';
+import { useAlertHistory, useAlertRules } from '../hooks/useAlerts';
+import { ExchangeSelect } from './ExchangeSelect';
+
+interface AlertsPanelProps {
+  symbol: string;
+}
+
+const RULE_TYPES: { type: AlertRuleType; label: string; unit: string }[] = [
+  { type: 'trade', label: 'Trade size', unit: 'USDT' },
+  { type: 'funding', label: 'Funding rate', unit: '%' },
+  { type: 'wall', label: 'Order book wall', unit: 'contracts' },
+  { type: 'price', label: 'Price cross', unit: 'price' }
+];
+
+const inputClass = 'bg-terminal-bg border border-terminal-border rounded px-1.5 py-0.5 text-[10px] font-mono text-terminal-text outline-none';
+
+const createDraft = (symbol: string): AlertRule => ({
+  id: createId(),
+  type: 'trade',
+  exchange: DEFAULT_EXCHANGE,
+  symbol,
+  direction: 'above',
+  value: 1000000,
+  side: 'bid',
+  maxDistance: 0.5,
+  cooldownSeconds: 60,
+  enabled: true,
+  notify: true,
+  sound: true
+});
+
+export const AlertsPanel: React.FC<AlertsPanelProps> = ({ symbol }) => {
+  const rules = useAlertRules();
+  const history = useAlertHistory();
+  const [draft, setDraft] = useState<AlertRule | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [permission, setPermission] = useState(typeof Notification !== 'undefined' ? Notification.permission : 'denied');
+
+  const update = (patch: Partial<AlertRule>) => {
+    if (draft) setDraft({ ...draft, ...patch });
+    setError(null);
+  };
+
+  const requestPermission = () => {
+    if (typeof Notification === 'undefined') return;
+    Notification.requestPermission().then(setPermission);
+  };
+
+  const save = async () => {
+    if (!draft) return;
+    const symbolValue = draft.symbol?.trim().toUpperCase() || null;
+    if (!symbolValue && draft.type !== 'funding') {
+      setError('This rule type needs a symbol');
+      return;
+    }
+    if (symbolValue) {
+      const symbolError = await SymbolRegistry.validate(draft.exchange, symbolValue);
+      if (symbolError) {
+        setError(symbolError);
+        return;
+      }
+    }
+    // Trades only make sense as "at least this big"
+    AlertRules.save({ ...draft, symbol: symbolValue, direction: draft.type === 'trade' ? 'above' : draft.direction });
+    if (draft.notify && permission === 'default') requestPermission();
+    setDraft(null);
+  };
+
+  const ruleType = draft ? RULE_TYPES.find(t => t.type === draft.type) : undefined;
+
+  return (
+    <div className="bg-terminal-panel border border-terminal-border rounded-lg flex flex-col h-full overflow-hidden">
+      <div className="p-4 border-b border-terminal-border flex justify-between items-start shrink-0">
+        <div>
+          <h2 className="font-bold text-sm uppercase tracking-wider flex items-center gap-2">
+            <Bell size={16} className="text-terminal-yellow" />
+            Alerts
+          </h2>
+          <p className="text-[10px] text-terminal-muted mt-1">
+            Rules are evaluated on live streams while WhaleStation is open
+          </p>
+        </div>
+        <div className="flex items-center gap-2">
+          {permission !== 'granted' && (
+            <button
+              onClick={requestPermission}
+              disabled={permission === 'denied'}
+              title={permission === 'denied' ? 'Notifications are blocked in browser settings' : 'Allow desktop notifications'}
+              className="flex items-center gap-1 px-2 py-1 rounded border border-terminal-border text-[10px] font-mono text-terminal-muted hover:text-white disabled:opacity-50 transition-colors"
+            >
+              <BellOff size={12} /> {permission === 'denied' ? 'Blocked' : 'Enable notifications'}
+            </button>
+          )}
+          <button
+            onClick={() => { setDraft(createDraft(symbol)); setError(null); }}
+            className="flex items-center gap-1 px-2 py-1 rounded border border-terminal-yellow/40 bg-terminal-yellow/10 text-terminal-yellow text-[10px] font-mono hover:bg-terminal-yellow/20 transition-colors"
+          >
+            <Plus size={12} /> New rule
+          </button>
+        </div>
+      </div>
+
+      <div className="flex-1 min-h-0 grid grid-cols-1 lg:grid-cols-2">
+        {/* Rules */}
+        <div className="flex flex-col min-h-0 border-r border-terminal-border">
+          {draft && (
+            <div className="p-4 space-y-2 border-b border-terminal-border text-[10px] font-mono text-terminal-muted shrink-0">
+              <div className="flex items-center gap-1.5">
+                <select value={draft.type} onChange={(e) => update({ type: e.target.value as AlertRuleType })} className={`${inputClass} flex-1`}>
+                  {RULE_TYPES.map(t => <option key={t.type} value={t.type}>{t.label}</option>)}
+                </select>
+                <ExchangeSelect value={draft.exchange} onChange={(exchange) => update({ exchange })} />
+                <button onClick={() => setDraft(null)} title="Close" className="p-1 hover:bg-terminal-border rounded hover:text-white transition-colors">
+                  <X size={14} />
+                </button>
+              </div>
+              <div className="flex items-center gap-1.5">
+                <input
+                  value={draft.symbol ?? ''}
+                  onChange={(e) => update({ symbol: e.target.value.toUpperCase() })}
+                  placeholder={draft.type === 'funding' ? 'Any symbol' : 'Symbol'}
+                  className={`${inputClass} w-28 uppercase`}
+                />
+                {draft.type === 'wall' && (
+                  <select value={draft.side} onChange={(e) => update({ side: e.target.value as WallSide })} className={inputClass}>
+                    <option value="bid">Bid wall</option>
+                    <option value="ask">Ask wall</option>
+                  </select>
+                )}
+                {draft.type !== 'trade' && (
+                  <select value={draft.direction} onChange={(e) => update({ direction: e.target.value as AlertDirection })} className={inputClass}>
+                    <option value="above">{draft.type === 'price' ? 'crosses above' : 'above'}</option>
+                    <option value="below">{draft.type === 'price' ? 'crosses below' : 'below'}</option>
+                  </select>
+                )}
+                {draft.type === 'trade' && <span>above</span>}
+                <input
+                  type="number"
+                  step="any"
+                  value={draft.value}
+                  onChange={(e) => update({ value: Number(e.target.value) })}
+                  className={`${inputClass} w-24 text-right`}
+                />
+                <span>{ruleType?.unit}</span>
+              </div>
+              {draft.type === 'wall' && (
+                <div className="flex items-center gap-1.5">
+                  <span>within</span>
+                  <input
+                    type="number"
+                    step="any"
+                    value={draft.maxDistance}
+                    onChange={(e) => update({ maxDistance: Number(e.target.value) })}
+                    className={`${inputClass} w-16 text-right`}
+                  />
+                  <span>% of price</span>
+                </div>
+              )}
+              <div className="flex items-center gap-3">
+                <label className="flex items-center gap-1">
+                  cooldown
+                  <input
+                    type="number"
+                    min={0}
+                    value={draft.cooldownSeconds}
+                    onChange={(e) => update({ cooldownSeconds: Math.max(0, Number(e.target.value)) })}
+                    className={`${inputClass} w-14 text-right`}
+                  />
+                  s
+                </label>
+                <label className="flex items-center gap-1">
+                  <input type="checkbox" checked={draft.notify} onChange={(e) => update({ notify: e.target.checked })} className="accent-terminal-yellow" />
+                  notify
+                </label>
+                <label className="flex items-center gap-1">
+                  <input type="checkbox" checked={draft.sound} onChange={(e) => update({ sound: e.target.checked })} className="accent-terminal-yellow" />
+                  sound
+                </label>
+                <button
+                  onClick={save}
+                  className="ml-auto px-2 py-1 rounded border border-terminal-yellow/40 bg-terminal-yellow/10 text-terminal-yellow hover:bg-terminal-yellow/20 transition-colors"
+                >
+                  Save
+                </button>
+              </div>
+              {error && <div className="text-terminal-red">{error}</div>}
+            </div>
+          )}
+
+          <div className="flex-1 overflow-y-auto">
+            {rules.length === 0 ? (
+              <div className="px-4 py-8 text-center text-xs text-terminal-muted italic">No alert rules yet.</div>
+            ) : (
+              rules.map(rule => (
+                <div key={rule.id} className="flex items-center gap-2 px-4 py-2 border-b border-terminal-border/50 text-xs font-mono">
+                  <input
+                    type="checkbox"
+                    checked={rule.enabled}
+                    onChange={(e) => AlertRules.setEnabled(rule.id, e.target.checked)}
+                    title={rule.enabled ? 'Disable' : 'Enable'}
+                    className="accent-terminal-yellow"
+                  />
+                  <div className={`flex-1 min-w-0 ${rule.enabled ? 'text-terminal-text' : 'text-terminal-muted line-through'}`}>
+                    <div className="truncate">{describeRule(rule)}</div>
+                    <div className="text-[10px] text-terminal-muted flex items-center gap-1">
+                      {rule.exchange} · {rule.cooldownSeconds}s cooldown
+                      {rule.notify && <Bell size={10} />}
+                      {rule.sound && <Volume2 size={10} />}
+                    </div>
+                  </div>
+                  <button onClick={() => { setDraft(rule); setError(null); }} title="Edit" className="p-1 text-terminal-muted hover:text-white">
+                    <Pencil size={12} />
+                  </button>
+                  <button onClick={() => AlertRules.remove(rule.id)} title="Delete" className="p-1 text-terminal-muted hover:text-terminal-red">
+                    <Trash2 size={12} />
+                  </button>
+                </div>
+              ))
+            )}
+          </div>
+        </div>
+
+        {/* History */}
+        <div className="flex flex-col min-h-0">
+          <div className="px-4 py-2 border-b border-terminal-border flex items-center justify-between text-[10px] uppercase font-mono text-terminal-muted shrink-0">
+            <span>History</span>
+            <button onClick={AlertHistory.clear} disabled={history.length === 0} className="hover:text-white disabled:opacity-50 transition-colors">
+              Clear
+            </button>
+          </div>
+          <div className="flex-1 overflow-y-auto">
+            {history.length === 0 ? (
+              <div className="px-4 py-8 text-center text-xs text-terminal-muted italic">No alerts fired yet.</div>
+            ) : (
+              history.map(firing => (
+                <div key={firing.id} className="px-4 py-2 border-b border-terminal-border/50 text-xs font-mono">
+                  <div className="flex items-center justify-between">
+                    <span className="font-bold text-terminal-yellow">{firing.symbol}</span>
+                    <span className="text-[10px] text-terminal-muted">
+                      {new Date(firing.time).toLocaleString([], { hour12: false, month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit', second: '2-digit' })}
+                    </span>
+                  </div>
+                  <div className="text-terminal-text">{firing.message}</div>
+                </div>
+              ))
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -1,11 +1,19 @@
 import React, { useEffect, useState, useMemo, useRef } from 'react';
-import { BinanceService } from '../services/binanceService';
-import { ProcessedDepth, OrderBookEntry } from '../types';
+import { getExchange, DEFAULT_EXCHANGE } from '../services/exchanges';
+import { ProcessedDepth, OrderBookEntry, BookSyncStatus, ExchangeId } from '../types';
 import { ComposedChart, Bar, Area, XAxis, YAxis, Tooltip, ResponsiveContainer, Cell, ReferenceLine, CartesianGrid } from 'recharts';
 import { Layers, Info, Wifi, BarChart2, Activity } from 'lucide-react';
+import { StreamHealthBadge } from './StreamHealthBadge';
+import { ExchangeSelect } from './ExchangeSelect';
+import { WallEventLog } from './WallEventLog';
+import { watchWalls } from '../services/wallTracker';
+import { formatPrice as formatSymbolPrice, getStepDecimals } from '../services/symbolRegistry';
+import { useSymbolInfo } from '../hooks/useSymbolInfo';
+import { useUrlParam } from '../hooks/useUrlParam';
 
 interface DepthVisualizerProps {
   symbol: string;
+  syncUrl?: boolean; // Keep the grouping in the URL; only for the single full-page view
 }
 
 interface VolumeNode {
@@ -15,38 +23,95 @@ interface VolumeNode {
   sellVol: number;
 }
 
-export const DepthVisualizer: React.FC<DepthVisualizerProps> = ({ symbol }) => {
+// Price grouping multipliers, in ticks
+const GROUPINGS = [1, 10, 100];
+
+// Price group of a level: bids round down and asks round up, so no group straddles the spread
+const getGroupIndex = (price: number, groupSize: number, roundUp: boolean) =>
+  roundUp ? Math.ceil(price / groupSize - 1e-9) : Math.floor(price / groupSize + 1e-9);
+
+// Sum levels into price groups
+const groupLevels = (levels: OrderBookEntry[], groupSize: number, roundUp: boolean): OrderBookEntry[] => {
+  const grouped: OrderBookEntry[] = [];
+  for (const level of levels) {
+    const price = getGroupIndex(level.price, groupSize, roundUp) * groupSize;
+    const last = grouped[grouped.length - 1];
+    // Levels arrive sorted away from the mid, so equal groups are adjacent
+    if (last && Math.abs(last.price - price) < groupSize / 2) {
+      last.quantity += level.quantity;
+      last.total += level.total;
+    } else {
+      grouped.push({ ...level, price });
+    }
+  }
+  return grouped;
+};
+
+// Volume profile in the same price groups as the book side it is drawn against, keyed by group index
+const groupVolume = (profile: Map<number, VolumeNode>, groupSize: number, roundUp: boolean) => {
+  const grouped = new Map<number, VolumeNode>();
+  profile.forEach(node => {
+    const index = getGroupIndex(node.price, groupSize, roundUp);
+    const group = grouped.get(index) || { price: index * groupSize, volume: 0, buyVol: 0, sellVol: 0 };
+    group.volume += node.volume;
+    group.buyVol += node.buyVol;
+    group.sellVol += node.sellVol;
+    grouped.set(index, group);
+  });
+  return grouped;
+};
+
+export const DepthVisualizer: React.FC<DepthVisualizerProps> = ({ symbol, syncUrl = false }) => {
   const [depthData, setDepthData] = useState<ProcessedDepth | null>(null);
   const [loading, setLoading] = useState(false);
-  const [connected, setConnected] = useState(false);
+  const [bookStatus, setBookStatus] = useState<BookSyncStatus>('syncing');
+  const [exchange, setExchange] = useState<ExchangeId>(DEFAULT_EXCHANGE);
+  const [groupingParam, setGroupingParam] = useUrlParam('grouping', String(GROUPINGS[0]), { allowed: GROUPINGS.map(String), replace: true, syncUrl });
+  const grouping = Number(groupingParam);
+  const symbolInfo = useSymbolInfo(symbol, exchange);
+  const tickSize = symbolInfo?.tickSize || null;
+
+  // Until the symbol's tick size is known levels are shown ungrouped
+  const groupSize = tickSize ? tickSize * grouping : null;
+  const groupSizeRef = useRef(groupSize);
+  groupSizeRef.current = groupSize;
+  const formatPrice = (price: number) => formatSymbolPrice(price, symbolInfo);
   
   // Volume Profile State (using Ref for high-frequency updates without re-renders)
-  const volumeProfileRef = useRef<Map<string, VolumeNode>>(new Map());
+  // Keyed by exact trade price, i.e. at tick resolution, so any grouping can be derived from it
+  const volumeProfileRef = useRef<Map<number, VolumeNode>>(new Map());
   const [volumeUpdateTrigger, setVolumeUpdateTrigger] = useState(0); // Trigger for periodic UI updates of stats
 
   useEffect(() => {
+    const resetVolumeProfile = () => {
+      volumeProfileRef.current.clear();
+      setVolumeUpdateTrigger(0);
+    };
+
     setLoading(true);
-    setConnected(false);
-    volumeProfileRef.current.clear();
-    setVolumeUpdateTrigger(0);
+    setBookStatus('syncing');
+    setDepthData(null);
+    resetVolumeProfile();
+    const adapter = getExchange(exchange);
+    // Wall events for the log, shared with other panels on this book
+    const wallSubscription = watchWalls(symbol, exchange);
     
     // 1. Subscribe to Trades (for Volume Profile)
-    const tradeWs = BinanceService.subscribeToTrades(symbol, (trade) => {
-      const price = parseFloat(trade.p).toFixed(2); // Group by 2 decimals
-      const qty = parseFloat(trade.q);
-      const isBuyerMaker = trade.m; // True = Sell, False = Buy
+    const tradeWs = adapter.subscribeToTrades(symbol, (trade) => {
+      const price = trade.price;
+      const qty = trade.quantity;
       
-      const node = volumeProfileRef.current.get(price) || { price: parseFloat(price), volume: 0, buyVol: 0, sellVol: 0 };
+      const node = volumeProfileRef.current.get(price) || { price, volume: 0, buyVol: 0, sellVol: 0 };
       
       node.volume += qty;
-      if (isBuyerMaker) {
+      if (trade.side === 'sell') {
         node.sellVol += qty;
       } else {
         node.buyVol += qty;
       }
       
       volumeProfileRef.current.set(price, node);
-    });
+    }, resetVolumeProfile);
 
     // Interval to trigger stats update (every 1s) to avoid thrashing React state
     const statsInterval = setInterval(() => {
@@ -54,37 +119,33 @@ export const DepthVisualizer: React.FC<DepthVisualizerProps> = ({ symbol }) => {
     }, 1000);
 
     // 2. Subscribe to Depth
-    const depthSubscription = BinanceService.subscribeToDepth(symbol, (rawDepth) => {
-      setConnected(true);
-      
+    const depthSubscription = adapter.subscribeToDepth(symbol, (rawDepth) => {
       if (!rawDepth.bids.length || !rawDepth.asks.length) return;
 
-      const bestBid = parseFloat(rawDepth.bids[0][0]);
-      const bestAsk = parseFloat(rawDepth.asks[0][0]);
+      const bestBid = rawDepth.bids[0].price;
+      const bestAsk = rawDepth.asks[0].price;
       const midPrice = (bestBid + bestAsk) / 2;
       const range = midPrice * 0.015; // 1.5% range
 
       // Process Bids
-      const bids: OrderBookEntry[] = [];
+      let bids: OrderBookEntry[] = [];
       for (const b of rawDepth.bids) {
-        const price = parseFloat(b[0]);
-        if (price < midPrice - range) break;
+        if (b.price < midPrice - range) break;
         bids.push({ 
-          price, 
-          quantity: parseFloat(b[1]), 
-          total: price * parseFloat(b[1]) 
+          price: b.price, 
+          quantity: b.quantity, 
+          total: b.price * b.quantity 
         });
       }
 
       // Process Asks
-      const asks: OrderBookEntry[] = [];
+      let asks: OrderBookEntry[] = [];
       for (const a of rawDepth.asks) {
-        const price = parseFloat(a[0]);
-        if (price > midPrice + range) break;
+        if (a.price > midPrice + range) break;
         asks.push({ 
-          price, 
-          quantity: parseFloat(a[1]), 
-          total: price * parseFloat(a[1]) 
+          price: a.price, 
+          quantity: a.quantity, 
+          total: a.price * a.quantity 
         });
       }
 
@@ -93,6 +154,13 @@ export const DepthVisualizer: React.FC<DepthVisualizerProps> = ({ symbol }) => {
         return;
       }
 
+      // Group by the selected multiple of the tick size
+      const currentGroupSize = groupSizeRef.current;
+      if (currentGroupSize) {
+        bids = groupLevels(bids, currentGroupSize, false);
+        asks = groupLevels(asks, currentGroupSize, true);
+      }
+
       // Analyze Walls
       const maxBid = bids.reduce((max, b) => b.quantity > max.quantity ? b : max, bids[0] || {quantity: 0, price: 0, total: 0});
       const maxAsk = asks.reduce((max, a) => a.quantity > max.quantity ? a : max, asks[0] || {quantity: 0, price: 0, total: 0});
@@ -119,15 +187,24 @@ export const DepthVisualizer: React.FC<DepthVisualizerProps> = ({ symbol }) => {
         }
       });
       setLoading(false);
-    });
+    }, setBookStatus);
 
     return () => {
+      wallSubscription.close();
       depthSubscription.close();
       tradeWs.close();
       clearInterval(statsInterval);
-      setConnected(false);
     };
-  }, [symbol]);
+  }, [symbol, exchange]);
+
+  // Volume profile at the selected grouping, rounded per side like the depth bars it sits on
+  const groupedVolume = useMemo(() => {
+    if (!groupSize) return { bids: new Map<number, VolumeNode>(), asks: new Map<number, VolumeNode>() };
+    return {
+      bids: groupVolume(volumeProfileRef.current, groupSize, false),
+      asks: groupVolume(volumeProfileRef.current, groupSize, true)
+    };
+  }, [volumeUpdateTrigger, groupSize]);
 
   // Merge Depth Data with Volume Profile Data for the Chart
   const chartData = useMemo(() => {
@@ -143,18 +220,20 @@ export const DepthVisualizer: React.FC<DepthVisualizerProps> = ({ symbol }) => {
 
     // Enrich with volume profile data
     return combined.map(item => {
-        const priceKey = item.price.toFixed(2);
-        const volNode = volumeProfileRef.current.get(priceKey);
+        const isAsk = item.type === 'ask';
+        const volNode = groupSize
+          ? (isAsk ? groupedVolume.asks : groupedVolume.bids).get(getGroupIndex(item.price, groupSize, isAsk))
+          : volumeProfileRef.current.get(item.price);
         return {
             ...item,
             tradedVol: volNode ? volNode.volume : 0
         };
     });
-  }, [depthData, volumeUpdateTrigger]); // Re-calc when depth updates OR volume trigger fires
+  }, [depthData, groupedVolume, groupSize]); // Re-calc when depth updates OR volume trigger fires
 
   // Calculate Side Panel Stats
   const volumeStats = useMemo(() => {
-    const nodes: VolumeNode[] = Array.from(volumeProfileRef.current.values());
+    const nodes: VolumeNode[] = Array.from((groupSize ? groupedVolume.bids : volumeProfileRef.current).values());
     const totalVol = nodes.reduce((acc, n) => acc + n.volume, 0);
     const maxVolNode = nodes.reduce((max, n) => n.volume > max.volume ? n : max, { volume: 0, price: 0, buyVol: 0, sellVol: 0 } as VolumeNode);
     
@@ -162,7 +241,7 @@ export const DepthVisualizer: React.FC<DepthVisualizerProps> = ({ symbol }) => {
     const topLevels = [...nodes].sort((a, b) => b.volume - a.volume).slice(0, 15);
 
     return { totalVol, maxVolNode, topLevels };
-  }, [volumeUpdateTrigger]);
+  }, [volumeUpdateTrigger, groupedVolume, groupSize]);
 
   const maxDepthSize = useMemo(() => {
     if (!chartData.length) return 1;
@@ -215,7 +294,7 @@ export const DepthVisualizer: React.FC<DepthVisualizerProps> = ({ symbol }) => {
         <div className="bg-terminal-panel border border-terminal-border p-2 rounded shadow-xl text-xs font-mono z-50 backdrop-blur-md bg-opacity-95">
           <div className="flex justify-between gap-4 mb-1">
             <span className="text-terminal-muted">Price:</span>
-            <span className="text-white font-bold">{Number(label).toFixed(2)}</span>
+            <span className="text-white font-bold">{formatPrice(Number(label))}</span>
           </div>
           <div className="flex justify-between gap-4 mb-1">
             <span className="text-terminal-muted">Depth Size:</span>
@@ -247,7 +326,7 @@ export const DepthVisualizer: React.FC<DepthVisualizerProps> = ({ symbol }) => {
           <h2 className="font-bold text-sm uppercase tracking-wider flex items-center gap-2">
             <Layers size={16} className="text-terminal-text" />
             Depth & Volume <span className="text-terminal-muted">({symbol})</span>
-            {connected && <div className="w-1.5 h-1.5 rounded-full bg-terminal-green animate-pulse shadow-[0_0_8px_rgba(14,203,129,0.5)]"></div>}
+            <BookStatusBadge status={bookStatus} />
           </h2>
           {depthData ? (
             <div className="mt-2 flex items-center gap-4 text-xs font-mono">
@@ -266,7 +345,7 @@ export const DepthVisualizer: React.FC<DepthVisualizerProps> = ({ symbol }) => {
               <div className="flex flex-col border-l border-terminal-border pl-4">
                 <span className="text-terminal-muted">POC Level</span>
                 <span className="text-terminal-yellow font-bold">
-                   {volumeStats.maxVolNode.price > 0 ? volumeStats.maxVolNode.price.toFixed(2) : '--'}
+                   {volumeStats.maxVolNode.price > 0 ? formatPrice(volumeStats.maxVolNode.price) : '--'}
                 </span>
               </div>
             </div>
@@ -277,22 +356,42 @@ export const DepthVisualizer: React.FC<DepthVisualizerProps> = ({ symbol }) => {
           )}
         </div>
         
-        {depthData && (
-          <div className={`px-3 py-1 rounded text-xs font-bold border ${
-            depthData.wallAnalysis.verdict === 'BULLISH' ? 'bg-terminal-green/10 text-terminal-green border-terminal-green/30' :
-            depthData.wallAnalysis.verdict === 'BEARISH' ? 'bg-terminal-red/10 text-terminal-red border-terminal-red/30' :
-            'bg-terminal-border text-terminal-muted border-terminal-muted/30'
-          }`}>
-            {depthData.wallAnalysis.verdict}
+        <div className="flex flex-col items-end gap-2">
+          <div className="flex items-center gap-2">
+            <StreamHealthBadge symbol={symbol} exchange={exchange} compact />
+            <select
+              value={grouping}
+              onChange={(e) => setGroupingParam(e.target.value)}
+              disabled={!tickSize}
+              title="Price grouping"
+              className="bg-terminal-bg border border-terminal-border rounded px-1.5 py-0.5 text-[10px] font-mono text-terminal-text outline-none disabled:opacity-50"
+            >
+              {GROUPINGS.map(multiple => (
+                <option key={multiple} value={multiple}>
+                  {tickSize ? (tickSize * multiple).toFixed(getStepDecimals(tickSize * multiple)) : '--'} ({multiple}x)
+                </option>
+              ))}
+            </select>
+            <ExchangeSelect value={exchange} onChange={setExchange} />
           </div>
-        )}
+          {depthData && (
+            <div className={`px-3 py-1 rounded text-xs font-bold border ${
+              depthData.wallAnalysis.verdict === 'BULLISH' ? 'bg-terminal-green/10 text-terminal-green border-terminal-green/30' :
+              depthData.wallAnalysis.verdict === 'BEARISH' ? 'bg-terminal-red/10 text-terminal-red border-terminal-red/30' :
+              'bg-terminal-border text-terminal-muted border-terminal-muted/30'
+            }`}>
+              {depthData.wallAnalysis.verdict}
+            </div>
+          )}
+        </div>
       </div>
 
       {/* Main Content Area: Chart + Side Panel */}
       <div className="flex flex-1 min-h-0 overflow-hidden">
         
         {/* Left: Chart */}
-        <div className="flex-1 h-full relative p-2 bg-terminal-bg/50">
+        {/* Stale book is dimmed until the resync completes */}
+        <div className={`flex-1 h-full relative p-2 bg-terminal-bg/50 transition-opacity ${bookStatus === 'desynced' ? 'opacity-40' : ''}`}>
             {loading && !depthData ? (
             <div className="h-full flex flex-col items-center justify-center text-terminal-muted gap-2">
                 <div className="w-6 h-6 border-2 border-terminal-yellow border-t-transparent rounded-full animate-spin"></div>
@@ -305,7 +404,7 @@ export const DepthVisualizer: React.FC<DepthVisualizerProps> = ({ symbol }) => {
                 <XAxis 
                     dataKey="price" 
                     tick={{fontSize: 10, fill: '#848E9C', fontFamily: 'JetBrains Mono'}} 
-                    tickFormatter={(val) => val.toFixed(2)}
+                    tickFormatter={(val) => formatPrice(val)}
                     interval="preserveStartEnd"
                     minTickGap={30}
                     axisLine={false}
@@ -386,7 +485,7 @@ export const DepthVisualizer: React.FC<DepthVisualizerProps> = ({ symbol }) => {
         </div>
 
         {/* Right: Volume Profile Side Panel */}
-        <div className="w-48 border-l border-terminal-border bg-terminal-bg/30 flex flex-col">
+        <div className="w-56 border-l border-terminal-border bg-terminal-bg/30 flex flex-col">
             <div className="p-2 border-b border-terminal-border bg-terminal-panel/50">
                 <h3 className="text-[10px] uppercase font-bold text-terminal-muted flex items-center gap-1">
                     <BarChart2 size={10} /> High Vol Nodes
@@ -411,7 +510,7 @@ export const DepthVisualizer: React.FC<DepthVisualizerProps> = ({ symbol }) => {
                                     ></div>
                                     
                                     <span className={`z-10 relative ${isPoc ? 'text-terminal-yellow font-bold' : 'text-terminal-text'}`}>
-                                        {level.price.toFixed(2)}
+                                        {formatPrice(level.price)}
                                         {isPoc && <span className="ml-1 text-[8px] bg-terminal-yellow text-black px-1 rounded font-sans font-bold">POC</span>}
                                     </span>
                                     <span className="z-10 relative text-terminal-muted text-[10px]">
@@ -423,6 +522,10 @@ export const DepthVisualizer: React.FC<DepthVisualizerProps> = ({ symbol }) => {
                     </div>
                 )}
             </div>
+            {/* Wall Lifecycle */}
+            <div className="flex-1 min-h-0 border-t border-terminal-border">
+                <WallEventLog symbol={symbol} exchange={exchange} />
+            </div>
             {/* POC Stats */}
             <div className="p-3 border-t border-terminal-border bg-terminal-panel/30">
                 <div className="flex items-center justify-between mb-1">
@@ -453,4 +556,19 @@ export const DepthVisualizer: React.FC<DepthVisualizerProps> = ({ symbol }) => {
       </div>
     </div>
   );
+};
+
+const BookStatusBadge = ({ status }: { status: BookSyncStatus }) => {
+  if (status === 'live') {
+    return <div title="Order book in sequence" className="w-1.5 h-1.5 rounded-full bg-terminal-green animate-pulse shadow-[0_0_8px_rgba(14,203,129,0.5)]"></div>;
+  }
+  return (
+    <span className={`px-1.5 py-0.5 rounded text-[9px] font-mono border ${
+      status === 'desynced'
+        ? 'bg-terminal-red/10 text-terminal-red border-terminal-red/30'
+        : 'bg-terminal-yellow/10 text-terminal-yellow border-terminal-yellow/30'
+    }`}>
+      {status === 'desynced' ? 'DESYNCED · RESYNCING' : 'SYNCING'}
+    </span>
+  );
 };
\ No newline at end of file
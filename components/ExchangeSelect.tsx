@@ -0,0 +1,22 @@
+import React from 'react';
+import { EXCHANGES } from '../services/exchanges';
+import { ExchangeId } from '../types';
+
+interface ExchangeSelectProps {
+  value: ExchangeId;
+  onChange: (exchange: ExchangeId) => void;
+}
+
+// Per-panel venue picker
+export const ExchangeSelect: React.FC<ExchangeSelectProps> = ({ value, onChange }) => (
+  <select
+    value={value}
+    onChange={(e) => onChange(e.target.value as ExchangeId)}
+    title="Venue"
+    className="bg-terminal-bg border border-terminal-border rounded px-1.5 py-0.5 text-[10px] font-mono text-terminal-text outline-none"
+  >
+    {Object.values(EXCHANGES).map(exchange => (
+      <option key={exchange.id} value={exchange.id}>{exchange.name}</option>
+    ))}
+  </select>
+);
@@ -0,0 +1,256 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { createChart, ColorType, ISeriesApi, Time } from 'lightweight-charts';
+import { Percent, Timer } from 'lucide-react';
+import { getExchange, DEFAULT_EXCHANGE } from '../services/exchanges';
+import { ExchangeId, FundingInfo, FundingRatePoint } from '../types';
+import { StreamHealthBadge } from './StreamHealthBadge';
+import { ExchangeSelect } from './ExchangeSelect';
+import { formatPrice } from '../services/symbolRegistry';
+import { useSymbolInfo } from '../hooks/useSymbolInfo';
+
+interface FundingPanelProps {
+  symbol: string;
+}
+
+// 100 settled periods is ~33 days at the usual 8h interval
+const HISTORY_LIMIT = 100;
+const HISTORY_REFRESH_INTERVAL = 5 * 60 * 1000;
+
+// Used until the history reveals the symbol's actual interval
+const DEFAULT_INTERVAL_HOURS = 8;
+
+// Window for the persistence stats below the live rate
+const RECENT_PERIODS = 21;
+
+const HOURS_PER_YEAR = 365 * 24;
+
+// Funding intervals differ per symbol (8h, 4h, 1h); the most common gap between settlements wins
+const getIntervalHours = (history: FundingRatePoint[]) => {
+  const counts = new Map<number, number>();
+  for (let i = 1; i < history.length; i++) {
+    const hours = Math.round((history[i].time - history[i - 1].time) / 3600000);
+    if (hours > 0) counts.set(hours, (counts.get(hours) ?? 0) + 1);
+  }
+  let best = DEFAULT_INTERVAL_HOURS;
+  let bestCount = 0;
+  counts.forEach((count, hours) => {
+    if (count > bestCount) {
+      best = hours;
+      bestCount = count;
+    }
+  });
+  return best;
+};
+
+// Period rate (fraction) -> annualized percent
+const annualize = (rate: number, intervalHours: number) => rate * (HOURS_PER_YEAR / intervalHours) * 100;
+
+const formatRate = (rate: number) => `${rate >= 0 ? '+' : ''}${(rate * 100).toFixed(4)}%`;
+
+const formatCountdown = (ms: number) => {
+  const totalSeconds = Math.max(0, Math.floor(ms / 1000));
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = totalSeconds % 60;
+  return [hours, minutes, seconds].map(v => v.toString().padStart(2, '0')).join(':');
+};
+
+const rateColor = (rate: number) => (rate < 0 ? 'text-terminal-red' : rate > 0 ? 'text-terminal-green' : 'text-terminal-text');
+
+export const FundingPanel: React.FC<FundingPanelProps> = ({ symbol }) => {
+  const [exchange, setExchange] = useState<ExchangeId>(DEFAULT_EXCHANGE);
+  const [funding, setFunding] = useState<FundingInfo | null>(null);
+  const [history, setHistory] = useState<FundingRatePoint[]>([]);
+  const [now, setNow] = useState(Date.now());
+  const symbolInfo = useSymbolInfo(symbol, exchange);
+
+  const chartContainerRef = useRef<HTMLDivElement>(null);
+  const seriesRef = useRef<ISeriesApi<"Histogram"> | null>(null);
+
+  // Live estimate from the mark price stream, seeded over REST for the interest rate
+  useEffect(() => {
+    setFunding(null);
+    const adapter = getExchange(exchange);
+    let isCancelled = false;
+
+    adapter.getFundingRates().then(rates => {
+      const seed = rates.find(r => r.symbol === symbol);
+      if (isCancelled || !seed) return;
+      // The stream may have answered first; keep its rate but take the interest rate
+      setFunding(prev => (prev ? { ...prev, interestRate: seed.interestRate } : seed));
+    });
+
+    const subscription = adapter.subscribeToFunding(symbol, (next) => {
+      setFunding(prev => ({ ...next, interestRate: next.interestRate ?? prev?.interestRate }));
+    }, () => setFunding(null));
+
+    return () => {
+      isCancelled = true;
+      subscription.close();
+    };
+  }, [symbol, exchange]);
+
+  // Settled history; refreshed periodically to pick up new settlements
+  useEffect(() => {
+    setHistory([]);
+    const adapter = getExchange(exchange);
+    let isCancelled = false;
+    const loadHistory = () => {
+      adapter.getFundingHistory(symbol, HISTORY_LIMIT).then(points => {
+        if (!isCancelled) setHistory(points);
+      });
+    };
+    loadHistory();
+    const interval = setInterval(loadHistory, HISTORY_REFRESH_INTERVAL);
+    return () => {
+      isCancelled = true;
+      clearInterval(interval);
+    };
+  }, [symbol, exchange]);
+
+  // Countdown tick
+  useEffect(() => {
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, []);
+
+  // Initialize Chart
+  useEffect(() => {
+    if (!chartContainerRef.current) return;
+
+    const chart = createChart(chartContainerRef.current, {
+      layout: {
+        background: { type: ColorType.Solid, color: '#151A21' },
+        textColor: '#848E9C',
+      },
+      grid: {
+        vertLines: { color: '#2B3139', style: 0, visible: false },
+        horzLines: { color: '#2B3139', style: 0 },
+      },
+      width: chartContainerRef.current.clientWidth,
+      height: 220,
+      timeScale: {
+        timeVisible: true,
+        secondsVisible: false,
+        borderColor: '#2B3139',
+      },
+      rightPriceScale: {
+        borderColor: '#2B3139',
+      },
+    });
+
+    const series = chart.addHistogramSeries({
+      priceFormat: { type: 'custom', formatter: (value: number) => `${value.toFixed(4)}%` },
+    });
+    seriesRef.current = series;
+
+    const handleResize = () => {
+      if (chartContainerRef.current) {
+        chart.applyOptions({ width: chartContainerRef.current.clientWidth });
+      }
+    };
+    const resizeObserver = new ResizeObserver(handleResize);
+    resizeObserver.observe(chartContainerRef.current);
+
+    return () => {
+      resizeObserver.disconnect();
+      chart.remove();
+      seriesRef.current = null;
+    };
+  }, []);
+
+  useEffect(() => {
+    seriesRef.current?.setData(history.map(point => ({
+      time: Math.floor(point.time / 1000) as Time,
+      value: point.rate * 100,
+      color: point.rate < 0 ? '#F6465D' : '#0ECB81'
+    })));
+  }, [history]);
+
+  const intervalHours = getIntervalHours(history);
+  const recent = history.slice(-RECENT_PERIODS);
+  const recentAverage = recent.length > 0 ? recent.reduce((sum, p) => sum + p.rate, 0) / recent.length : null;
+  const recentNegative = recent.filter(p => p.rate < 0).length;
+
+  // Consecutive settlements with the same sign as the latest one
+  let streak = 0;
+  for (let i = history.length - 1; i >= 0 && Math.sign(history[i].rate) === Math.sign(history[history.length - 1].rate); i--) {
+    streak++;
+  }
+
+  return (
+    <div className="bg-terminal-panel border border-terminal-border rounded-lg flex flex-col h-full overflow-hidden">
+      <div className="p-4 border-b border-terminal-border flex justify-between items-start shrink-0">
+        <div>
+          <h2 className="font-bold text-sm uppercase tracking-wider flex items-center gap-2">
+            <Percent size={16} className="text-terminal-yellow" />
+            Funding <span className="text-terminal-muted">({symbol})</span>
+          </h2>
+          <p className="text-[10px] text-terminal-muted mt-1">
+            Settles every {intervalHours}h · <span className="text-terminal-red">Negative</span> = shorts pay longs
+          </p>
+        </div>
+        <div className="flex items-center gap-2">
+          <StreamHealthBadge symbol={symbol} exchange={exchange} compact />
+          <ExchangeSelect value={exchange} onChange={setExchange} />
+        </div>
+      </div>
+
+      {/* Live Period */}
+      <div className="grid grid-cols-2 md:grid-cols-4 border-b border-terminal-border shrink-0 font-mono">
+        <div className="p-3 border-r border-terminal-border">
+          <div className="text-[10px] text-terminal-muted uppercase">Est. Rate</div>
+          <div className={`text-lg font-bold ${funding ? rateColor(funding.fundingRate) : 'text-terminal-muted'}`}>
+            {funding ? formatRate(funding.fundingRate) : '--'}
+          </div>
+        </div>
+        <div className="p-3 border-r border-terminal-border">
+          <div className="text-[10px] text-terminal-muted uppercase flex items-center gap-1"><Timer size={10} /> Next Funding</div>
+          <div className="text-lg font-bold text-terminal-text">
+            {funding ? formatCountdown(funding.nextFundingTime - now) : '--:--:--'}
+          </div>
+        </div>
+        <div className="p-3 border-r border-terminal-border">
+          <div className="text-[10px] text-terminal-muted uppercase">Annualized</div>
+          <div className={`text-lg font-bold ${funding ? rateColor(funding.fundingRate) : 'text-terminal-muted'}`}>
+            {funding ? `${annualize(funding.fundingRate, intervalHours).toFixed(2)}%` : '--'}
+          </div>
+        </div>
+        <div className="p-3">
+          <div className="text-[10px] text-terminal-muted uppercase">Mark / Interest</div>
+          <div className="text-xs text-terminal-text mt-1">
+            {funding ? formatPrice(funding.markPrice, symbolInfo) : '--'}
+          </div>
+          <div className="text-[10px] text-terminal-muted">
+            {funding?.interestRate !== undefined ? formatRate(funding.interestRate) : 'n/a'}
+          </div>
+        </div>
+      </div>
+
+      {/* Persistence */}
+      <div className="grid grid-cols-3 border-b border-terminal-border shrink-0 text-[10px] font-mono">
+        <div className="px-3 py-2 border-r border-terminal-border">
+          <span className="text-terminal-muted">Avg last {recent.length}: </span>
+          <span className={recentAverage !== null ? rateColor(recentAverage) : 'text-terminal-muted'}>
+            {recentAverage !== null ? `${formatRate(recentAverage)} (${annualize(recentAverage, intervalHours).toFixed(1)}% APR)` : '--'}
+          </span>
+        </div>
+        <div className="px-3 py-2 border-r border-terminal-border">
+          <span className="text-terminal-muted">Negative: </span>
+          <span className="text-terminal-text">{recent.length > 0 ? `${recentNegative}/${recent.length}` : '--'}</span>
+        </div>
+        <div className="px-3 py-2">
+          <span className="text-terminal-muted">Streak: </span>
+          <span className={history.length > 0 ? rateColor(history[history.length - 1].rate) : 'text-terminal-muted'}>
+            {history.length > 0 ? `${streak} ${history[history.length - 1].rate < 0 ? 'negative' : 'positive'}` : '--'}
+          </span>
+        </div>
+      </div>
+
+      <div className="flex-1 min-h-0 p-2">
+        <div className="text-[10px] text-terminal-muted uppercase font-mono mb-1">Settled Rates (last {HISTORY_LIMIT})</div>
+        <div ref={chartContainerRef} className="w-full" />
+      </div>
+    </div>
+  );
+};
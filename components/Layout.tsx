@@ -1,5 +1,5 @@
 import React, { ReactNode } from 'react';
-import { Terminal, Activity, Layers, Zap } from 'lucide-react';
+import { Terminal, LayoutGrid, Activity, Layers, Zap, Flame, Percent, Grid3x3, Bell, Radar } from 'lucide-react';
 
 interface LayoutProps {
   children: ReactNode;
@@ -26,6 +26,12 @@ export const Layout: React.FC<LayoutProps> = ({ children, activeTab, onTabChange
           <NavButton 
             active={activeTab === 'dashboard'} 
             onClick={() => onTabChange('dashboard')} 
+            icon={<LayoutGrid size={16} />} 
+            label="Workspace" 
+          />
+          <NavButton 
+            active={activeTab === 'whales'} 
+            onClick={() => onTabChange('whales')} 
             icon={<Activity size={16} />} 
             label="Whale Watch" 
           />
@@ -35,12 +41,42 @@ export const Layout: React.FC<LayoutProps> = ({ children, activeTab, onTabChange
             icon={<Zap size={16} />} 
             label="Squeeze Scanner" 
           />
+          <NavButton 
+            active={activeTab === 'tape'} 
+            onClick={() => onTabChange('tape')} 
+            icon={<Radar size={16} />} 
+            label="Whale Tape" 
+          />
           <NavButton 
             active={activeTab === 'depth'} 
             onClick={() => onTabChange('depth')} 
             icon={<Layers size={16} />} 
             label="Depth Walls" 
           />
+          <NavButton 
+            active={activeTab === 'heatmap'} 
+            onClick={() => onTabChange('heatmap')} 
+            icon={<Grid3x3 size={16} />} 
+            label="Heatmap" 
+          />
+          <NavButton 
+            active={activeTab === 'liquidations'} 
+            onClick={() => onTabChange('liquidations')} 
+            icon={<Flame size={16} />} 
+            label="Liquidations" 
+          />
+          <NavButton 
+            active={activeTab === 'funding'} 
+            onClick={() => onTabChange('funding')} 
+            icon={<Percent size={16} />} 
+            label="Funding" 
+          />
+          <NavButton 
+            active={activeTab === 'alerts'} 
+            onClick={() => onTabChange('alerts')} 
+            icon={<Bell size={16} />} 
+            label="Alerts" 
+          />
         </nav>
       </header>
 
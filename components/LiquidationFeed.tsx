@@ -0,0 +1,194 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Flame, Globe, Crosshair } from 'lucide-react';
+import { getExchange, DEFAULT_EXCHANGE } from '../services/exchanges';
+import { ExchangeId, Liquidation } from '../types';
+import { StreamHealthBadge } from './StreamHealthBadge';
+import { ExchangeSelect } from './ExchangeSelect';
+import { formatPrice } from '../services/symbolRegistry';
+import { useSymbols } from '../hooks/useSymbolInfo';
+
+interface LiquidationFeedProps {
+  symbol: string;
+  onSelectSymbol?: (symbol: string) => void;
+}
+
+// Rolling windows for the long vs short totals (ms)
+const WINDOWS = [
+  { label: '5m', ms: 5 * 60 * 1000 },
+  { label: '15m', ms: 15 * 60 * 1000 },
+  { label: '1h', ms: 60 * 60 * 1000 }
+];
+const RETENTION = WINDOWS[WINDOWS.length - 1].ms;
+
+const MAX_FEED_ROWS = 100;
+
+interface WindowTotals {
+  label: string;
+  long: number;
+  short: number;
+}
+
+const formatCompact = (val: number) => {
+  if (val >= 1000000) return '$' + (val / 1000000).toFixed(2) + 'M';
+  if (val >= 1000) return '$' + (val / 1000).toFixed(1) + 'K';
+  return '$' + val.toFixed(0);
+};
+
+export const LiquidationFeed: React.FC<LiquidationFeedProps> = ({ symbol, onSelectSymbol }) => {
+  const [scope, setScope] = useState<'symbol' | 'market'>('symbol');
+  const [exchange, setExchange] = useState<ExchangeId>(DEFAULT_EXCHANGE);
+  const [threshold, setThreshold] = useState<number>(10000);
+  const [feed, setFeed] = useState<Liquidation[]>([]);
+  const [totals, setTotals] = useState<WindowTotals[]>(WINDOWS.map(w => ({ label: w.label, long: 0, short: 0 })));
+  const [isUnsupported, setIsUnsupported] = useState(false);
+  const symbols = useSymbols(exchange);
+
+  // Every liquidation in the retention window, regardless of threshold, feeds the totals
+  const historyRef = useRef<Liquidation[]>([]);
+  const thresholdRef = useRef(threshold);
+  thresholdRef.current = threshold;
+
+  useEffect(() => {
+    historyRef.current = [];
+    setFeed([]);
+
+    const reset = () => {
+      historyRef.current = [];
+      setFeed([]);
+    };
+
+    const subscription = getExchange(exchange).subscribeToLiquidations(scope === 'symbol' ? symbol : null, (liquidation) => {
+      historyRef.current.push(liquidation);
+      if (liquidation.value < thresholdRef.current) return;
+      setFeed(prev => [liquidation, ...prev].slice(0, MAX_FEED_ROWS));
+    }, reset);
+    setIsUnsupported(subscription === null);
+
+    // Recompute rolling totals once a second rather than on every event
+    const totalsInterval = setInterval(() => {
+      const now = Date.now();
+      historyRef.current = historyRef.current.filter(l => now - l.time <= RETENTION);
+      setTotals(WINDOWS.map(w => {
+        const inWindow = historyRef.current.filter(l => now - l.time <= w.ms);
+        return {
+          label: w.label,
+          long: inWindow.filter(l => l.side === 'long').reduce((sum, l) => sum + l.value, 0),
+          short: inWindow.filter(l => l.side === 'short').reduce((sum, l) => sum + l.value, 0)
+        };
+      }));
+    }, 1000);
+
+    return () => {
+      subscription?.close();
+      clearInterval(totalsInterval);
+    };
+  }, [symbol, scope, exchange]);
+
+  // Raising the threshold hides liquidations that no longer qualify
+  useEffect(() => {
+    setFeed(prev => prev.filter(l => l.value >= threshold));
+  }, [threshold]);
+
+  return (
+    <div className="bg-terminal-panel border border-terminal-border rounded-lg flex flex-col h-full overflow-hidden">
+      <div className="p-4 border-b border-terminal-border flex justify-between items-start shrink-0">
+        <div>
+          <h2 className="font-bold text-sm uppercase tracking-wider flex items-center gap-2">
+            <Flame size={16} className="text-terminal-yellow" />
+            Liquidations <span className="text-terminal-muted">({scope === 'symbol' ? symbol : 'All'})</span>
+          </h2>
+          <p className="text-[10px] text-terminal-muted mt-1">
+            <span className="text-terminal-red">Longs</span> forced out vs <span className="text-terminal-green">Shorts</span> squeezed
+          </p>
+        </div>
+        <div className="flex items-center gap-2">
+          <StreamHealthBadge symbol={scope === 'symbol' ? symbol : undefined} exchange={exchange} compact />
+          <ExchangeSelect value={exchange} onChange={setExchange} />
+          <button
+            onClick={() => setScope(scope === 'symbol' ? 'market' : 'symbol')}
+            title={scope === 'symbol' ? 'Show whole market' : `Show ${symbol} only`}
+            className="p-1.5 hover:bg-terminal-border rounded text-terminal-muted hover:text-white transition-colors"
+          >
+            {scope === 'symbol' ? <Globe size={14} /> : <Crosshair size={14} />}
+          </button>
+          <select
+            value={threshold}
+            onChange={(e) => setThreshold(Number(e.target.value))}
+            className="bg-terminal-bg border border-terminal-border rounded px-1.5 py-0.5 text-[10px] font-mono text-terminal-text outline-none"
+          >
+            <option value="0">All</option>
+            <option value="10000">$10k+</option>
+            <option value="50000">$50k+</option>
+            <option value="100000">$100k+</option>
+            <option value="500000">$500k+</option>
+          </select>
+        </div>
+      </div>
+
+      {/* Rolling Long vs Short Totals */}
+      <div className="grid grid-cols-3 border-b border-terminal-border shrink-0">
+        {totals.map(t => {
+          const total = t.long + t.short;
+          const longShare = total > 0 ? (t.long / total) * 100 : 50;
+          return (
+            <div key={t.label} className="px-3 py-2 border-r border-terminal-border last:border-r-0 text-[10px] font-mono">
+              <div className="flex justify-between text-terminal-muted mb-1">
+                <span>{t.label}</span>
+                <span className="text-terminal-text">{formatCompact(total)}</span>
+              </div>
+              <div className="flex h-1.5 rounded-full overflow-hidden bg-terminal-border">
+                <div className="bg-terminal-red" style={{ width: `${total > 0 ? longShare : 0}%` }}></div>
+                <div className="bg-terminal-green" style={{ width: `${total > 0 ? 100 - longShare : 0}%` }}></div>
+              </div>
+              <div className="flex justify-between mt-1">
+                <span className="text-terminal-red">L {formatCompact(t.long)}</span>
+                <span className="text-terminal-green">S {formatCompact(t.short)}</span>
+              </div>
+            </div>
+          );
+        })}
+      </div>
+
+      <div className="flex-1 overflow-y-auto">
+        <table className="w-full text-left border-collapse">
+          <thead className="sticky top-0 bg-terminal-panel z-10 text-[10px] text-terminal-muted uppercase font-mono border-b border-terminal-border">
+            <tr>
+              <th className="px-4 py-2">Time</th>
+              {scope === 'market' && <th className="px-4 py-2">Symbol</th>}
+              <th className="px-4 py-2">Liq</th>
+              <th className="px-4 py-2 text-right">Price</th>
+              <th className="px-4 py-2 text-right">Value</th>
+            </tr>
+          </thead>
+          <tbody className="font-mono text-xs">
+            {isUnsupported ? (
+              <tr><td colSpan={5} className="px-4 py-8 text-center text-terminal-muted italic">{getExchange(exchange).name} has no market-wide liquidation feed.</td></tr>
+            ) : feed.length === 0 ? (
+              <tr><td colSpan={5} className="px-4 py-8 text-center text-terminal-muted italic">Waiting for liquidations &gt; {formatCompact(threshold)}...</td></tr>
+            ) : (
+              feed.map((l, index) => (
+                <tr
+                  key={`${l.symbol}-${l.time}-${index}`}
+                  onClick={() => onSelectSymbol?.(l.symbol)}
+                  className={`border-b border-terminal-border/50 hover:bg-terminal-border/30 transition-colors ${onSelectSymbol ? 'cursor-pointer' : ''}`}
+                >
+                  <td className="px-4 py-2 text-terminal-muted">
+                    {new Date(l.time).toLocaleTimeString([], { hour12: false, hour: '2-digit', minute: '2-digit', second: '2-digit' })}
+                  </td>
+                  {scope === 'market' && <td className="px-4 py-2 font-bold text-terminal-text">{l.symbol}</td>}
+                  <td className={`px-4 py-2 font-bold ${l.side === 'long' ? 'text-terminal-red' : 'text-terminal-green'}`}>
+                    {l.side === 'long' ? 'LONG' : 'SHORT'}
+                  </td>
+                  <td className="px-4 py-2 text-right text-terminal-text">{formatPrice(l.price, symbols?.get(l.symbol))}</td>
+                  <td className={`px-4 py-2 text-right font-bold ${l.value >= 1000000 ? 'text-terminal-yellow' : 'text-terminal-text'}`}>
+                    {formatCompact(l.value)}
+                  </td>
+                </tr>
+              ))
+            )}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
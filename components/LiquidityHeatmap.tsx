@@ -0,0 +1,476 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Grid3x3, Radio } from 'lucide-react';
+import { getExchange, DEFAULT_EXCHANGE } from '../services/exchanges';
+import { BookSyncStatus, ExchangeId, MarketDepth, SymbolInfo, TradeSide } from '../types';
+import { StreamHealthBadge } from './StreamHealthBadge';
+import { ExchangeSelect } from './ExchangeSelect';
+import { formatPrice } from '../services/symbolRegistry';
+import { useSymbolInfo } from '../hooks/useSymbolInfo';
+
+interface LiquidityHeatmapProps {
+  symbol: string;
+}
+
+// One column of the heatmap is sampled from the latest book this often (ms)
+const COLUMN_INTERVAL = 250;
+
+// 30 minutes of history
+const MAX_COLUMNS = (30 * 60 * 1000) / COLUMN_INTERVAL;
+
+// Price rows are ~1bp of the mid price, never finer than the book's own tick
+const BUCKET_FRACTION = 0.0001;
+
+// Only levels within this distance of the mid price are kept (fraction)
+const RECORD_RANGE = 0.02;
+
+const AXIS_WIDTH = 64;
+const AXIS_HEIGHT = 18;
+
+// Zoom limits in pixels per column / per price row
+const MIN_COLUMN_WIDTH = 1;
+const MAX_COLUMN_WIDTH = 16;
+const MIN_ROW_HEIGHT = 1;
+const MAX_ROW_HEIGHT = 24;
+const ZOOM_STEP = 1.15;
+
+interface HeatmapColumn {
+  time: number; // Wall clock, so live and replayed sessions scroll the same way
+  baseBucket: number; // Bucket index of sizes[0]
+  sizes: Float32Array | null; // Resting quantity per price bucket; null while the book is out of sync
+  bestBid: number;
+  bestAsk: number;
+}
+
+interface TradeBubble {
+  time: number; // Wall clock at arrival, matching the column clock
+  price: number;
+  notional: number;
+  side: TradeSide;
+}
+
+interface HeatmapView {
+  columnWidth: number;
+  rowHeight: number;
+  centerBucket: number | null; // null follows the mid price
+  columnOffset: number; // Columns scrolled back from the newest; 0 is live
+}
+
+// Round up to 1, 2 or 5 times a power of ten
+const niceStep = (raw: number) => {
+  const magnitude = Math.pow(10, Math.floor(Math.log10(raw)));
+  const normalized = raw / magnitude;
+  const step = normalized <= 1 ? 1 : normalized <= 2 ? 2 : normalized <= 5 ? 5 : 10;
+  return step * magnitude;
+};
+
+// Smallest gap between adjacent bid levels approximates the tick size
+const estimateTick = (depth: MarketDepth) => {
+  let tick = Infinity;
+  for (let i = 1; i < Math.min(depth.bids.length, 50); i++) {
+    const gap = depth.bids[i - 1].price - depth.bids[i].price;
+    if (gap > 0 && gap < tick) tick = gap;
+  }
+  return Number.isFinite(tick) ? tick : 0;
+};
+
+const getBucketSize = (depth: MarketDepth) => {
+  const mid = (depth.bids[0].price + depth.asks[0].price) / 2;
+  return Math.max(niceStep(mid * BUCKET_FRACTION), estimateTick(depth));
+};
+
+// Dark blue -> cyan -> yellow -> white, in the style of Bookmap
+const PALETTE = (() => {
+  const stops = [
+    [0, [11, 14, 17]],
+    [0.25, [20, 50, 120]],
+    [0.5, [20, 160, 200]],
+    [0.75, [252, 213, 53]],
+    [1, [255, 255, 255]]
+  ] as const;
+  const palette = new Uint8ClampedArray(256 * 3);
+  for (let i = 0; i < 256; i++) {
+    const t = i / 255;
+    let s = 0;
+    while (s < stops.length - 2 && t > stops[s + 1][0]) s++;
+    const [t0, c0] = stops[s];
+    const [t1, c1] = stops[s + 1];
+    const f = (t - t0) / (t1 - t0);
+    for (let c = 0; c < 3; c++) palette[i * 3 + c] = c0[c] + (c1[c] - c0[c]) * f;
+  }
+  return palette;
+})();
+
+const sampleColumn = (depth: MarketDepth | null, bucketSize: number, isInSync: boolean): HeatmapColumn => {
+  const time = Date.now();
+  if (!depth || !isInSync || !depth.bids.length || !depth.asks.length) {
+    return { time, baseBucket: 0, sizes: null, bestBid: 0, bestAsk: 0 };
+  }
+  const bestBid = depth.bids[0].price;
+  const bestAsk = depth.asks[0].price;
+  const mid = (bestBid + bestAsk) / 2;
+  const baseBucket = Math.floor((mid * (1 - RECORD_RANGE)) / bucketSize);
+  const topBucket = Math.ceil((mid * (1 + RECORD_RANGE)) / bucketSize);
+  const sizes = new Float32Array(topBucket - baseBucket + 1);
+
+  const addLevels = (levels: MarketDepth['bids']) => {
+    for (const level of levels) {
+      const index = Math.round(level.price / bucketSize) - baseBucket;
+      if (index < 0 || index >= sizes.length) break; // Levels are sorted away from the mid
+      sizes[index] += level.quantity;
+    }
+  };
+  addLevels(depth.bids);
+  addLevels(depth.asks);
+
+  return { time, baseBucket, sizes, bestBid, bestAsk };
+};
+
+const drawHeatmap = (
+  canvas: HTMLCanvasElement,
+  columns: HeatmapColumn[],
+  trades: TradeBubble[],
+  view: HeatmapView,
+  bucketSize: number,
+  minNotional: number,
+  symbolInfo: SymbolInfo | null
+) => {
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return;
+  const dpr = window.devicePixelRatio || 1;
+  const width = canvas.width / dpr;
+  const height = canvas.height / dpr;
+  ctx.setTransform(dpr, 0, 0, dpr, 0, 0);
+  ctx.fillStyle = '#0B0E11';
+  ctx.fillRect(0, 0, width, height);
+  if (columns.length === 0 || bucketSize <= 0) return;
+
+  const plotWidth = width - AXIS_WIDTH;
+  const plotHeight = height - AXIS_HEIGHT;
+  const visibleColumns = Math.max(1, Math.ceil(plotWidth / view.columnWidth));
+  const visibleRows = Math.max(1, Math.ceil(plotHeight / view.rowHeight));
+
+  const lastIndex = columns.length - 1 - view.columnOffset;
+  const firstIndex = Math.max(0, lastIndex - visibleColumns + 1);
+  const newest = columns[Math.max(0, lastIndex)];
+
+  // Center on the mid price of the newest visible column unless the user panned
+  let centerBucket = view.centerBucket;
+  if (centerBucket === null) {
+    const reference = [...columns.slice(firstIndex, lastIndex + 1)].reverse().find(c => c.sizes);
+    if (!reference) return;
+    centerBucket = Math.round((reference.bestBid + reference.bestAsk) / 2 / bucketSize);
+  }
+  const topBucket = Math.round(centerBucket + visibleRows / 2);
+  const bottomBucket = topBucket - visibleRows + 1;
+
+  // Normalize against the largest visible cell
+  let maxSize = 0;
+  for (let i = firstIndex; i <= lastIndex; i++) {
+    const column = columns[i];
+    if (!column.sizes) continue;
+    const from = Math.max(0, bottomBucket - column.baseBucket);
+    const to = Math.min(column.sizes.length - 1, topBucket - column.baseBucket);
+    for (let j = from; j <= to; j++) if (column.sizes[j] > maxSize) maxSize = column.sizes[j];
+  }
+
+  // One pixel per cell, scaled up without smoothing
+  const image = ctx.createImageData(visibleColumns, visibleRows);
+  const rightColumn = visibleColumns - 1;
+  for (let i = firstIndex; i <= lastIndex; i++) {
+    const column = columns[i];
+    if (!column.sizes || maxSize === 0) continue;
+    const x = rightColumn - (lastIndex - i);
+    for (let row = 0; row < visibleRows; row++) {
+      const index = topBucket - row - column.baseBucket;
+      if (index < 0 || index >= column.sizes.length) continue;
+      const size = column.sizes[index];
+      if (size <= 0) continue;
+      // Square root keeps mid-sized levels visible next to the largest walls
+      const level = Math.min(255, Math.round(Math.sqrt(size / maxSize) * 255));
+      const offset = (row * visibleColumns + x) * 4;
+      image.data[offset] = PALETTE[level * 3];
+      image.data[offset + 1] = PALETTE[level * 3 + 1];
+      image.data[offset + 2] = PALETTE[level * 3 + 2];
+      image.data[offset + 3] = 255;
+    }
+  }
+  const cells = document.createElement('canvas');
+  cells.width = visibleColumns;
+  cells.height = visibleRows;
+  cells.getContext('2d')?.putImageData(image, 0, 0);
+  ctx.imageSmoothingEnabled = false;
+  const plotLeft = plotWidth - visibleColumns * view.columnWidth;
+  ctx.drawImage(cells, plotLeft, 0, visibleColumns * view.columnWidth, visibleRows * view.rowHeight);
+
+  const priceToY = (price: number) => (topBucket - price / bucketSize + 0.5) * view.rowHeight;
+  const timeToX = (time: number) => plotWidth - ((newest.time - time) / COLUMN_INTERVAL + 0.5) * view.columnWidth;
+
+  // Best bid / ask trail
+  ctx.lineWidth = 1;
+  (['bestBid', 'bestAsk'] as const).forEach(key => {
+    ctx.strokeStyle = key === 'bestBid' ? '#0ECB81' : '#F6465D';
+    ctx.beginPath();
+    let isDrawing = false;
+    for (let i = firstIndex; i <= lastIndex; i++) {
+      const column = columns[i];
+      if (!column.sizes) {
+        isDrawing = false;
+        continue;
+      }
+      const x = plotWidth - (lastIndex - i + 0.5) * view.columnWidth;
+      const y = priceToY(column[key]);
+      if (isDrawing) ctx.lineTo(x, y);
+      else ctx.moveTo(x, y);
+      isDrawing = true;
+    }
+    ctx.stroke();
+  });
+
+  // Trade bubbles, area proportional to notional
+  const oldestTime = columns[firstIndex].time - COLUMN_INTERVAL;
+  for (const trade of trades) {
+    if (trade.notional < minNotional || trade.time < oldestTime || trade.time > newest.time + COLUMN_INTERVAL) continue;
+    const radius = Math.min(30, 2 + Math.sqrt(trade.notional) / 60);
+    ctx.beginPath();
+    ctx.arc(timeToX(trade.time), priceToY(trade.price), radius, 0, Math.PI * 2);
+    ctx.fillStyle = trade.side === 'buy' ? 'rgba(14, 203, 129, 0.45)' : 'rgba(246, 70, 93, 0.45)';
+    ctx.strokeStyle = trade.side === 'buy' ? '#0ECB81' : '#F6465D';
+    ctx.fill();
+    ctx.stroke();
+  }
+
+  // Price axis
+  const rowsPerLabel = Math.max(1, Math.ceil(32 / view.rowHeight));
+  ctx.fillStyle = '#151A21';
+  ctx.fillRect(plotWidth, 0, AXIS_WIDTH, height);
+  ctx.fillStyle = '#848E9C';
+  ctx.font = '10px JetBrains Mono, monospace';
+  ctx.textBaseline = 'middle';
+  for (let bucket = topBucket - (topBucket % rowsPerLabel); bucket >= bottomBucket; bucket -= rowsPerLabel) {
+    ctx.fillText(formatPrice(bucket * bucketSize, symbolInfo), plotWidth + 6, priceToY(bucket * bucketSize));
+  }
+
+  // Time axis
+  ctx.fillStyle = '#151A21';
+  ctx.fillRect(0, plotHeight, plotWidth, AXIS_HEIGHT);
+  ctx.fillStyle = '#848E9C';
+  const columnsPerLabel = Math.max(1, Math.ceil(90 / view.columnWidth));
+  for (let i = lastIndex; i >= firstIndex; i -= columnsPerLabel) {
+    const x = plotWidth - (lastIndex - i + 0.5) * view.columnWidth;
+    const label = new Date(columns[i].time).toLocaleTimeString([], { hour12: false, hour: '2-digit', minute: '2-digit', second: '2-digit' });
+    ctx.fillText(label, x - 24, plotHeight + AXIS_HEIGHT / 2);
+  }
+};
+
+export const LiquidityHeatmap: React.FC<LiquidityHeatmapProps> = ({ symbol }) => {
+  const [exchange, setExchange] = useState<ExchangeId>(DEFAULT_EXCHANGE);
+  const [bookStatus, setBookStatus] = useState<BookSyncStatus>('syncing');
+  const [minNotional, setMinNotional] = useState(10000);
+  const [isFollowing, setIsFollowing] = useState(true);
+
+  const containerRef = useRef<HTMLDivElement>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+
+  // Everything the canvas needs lives in refs; React only renders the chrome around it
+  const columnsRef = useRef<HeatmapColumn[]>([]);
+  const tradesRef = useRef<TradeBubble[]>([]);
+  const bucketSizeRef = useRef(0);
+  const viewRef = useRef<HeatmapView>({ columnWidth: 3, rowHeight: 4, centerBucket: null, columnOffset: 0 });
+  const minNotionalRef = useRef(minNotional);
+  minNotionalRef.current = minNotional;
+  const symbolInfo = useSymbolInfo(symbol, exchange);
+  const symbolInfoRef = useRef(symbolInfo);
+  symbolInfoRef.current = symbolInfo;
+
+  const redraw = () => {
+    if (canvasRef.current) {
+      drawHeatmap(canvasRef.current, columnsRef.current, tradesRef.current, viewRef.current, bucketSizeRef.current, minNotionalRef.current, symbolInfoRef.current);
+    }
+  };
+
+  useEffect(() => {
+    const reset = () => {
+      columnsRef.current = [];
+      tradesRef.current = [];
+      bucketSizeRef.current = 0;
+      viewRef.current = { ...viewRef.current, centerBucket: null, columnOffset: 0 };
+      setIsFollowing(true);
+    };
+    reset();
+    setBookStatus('syncing');
+
+    const adapter = getExchange(exchange);
+    let latestDepth: MarketDepth | null = null;
+    let status: BookSyncStatus = 'syncing';
+
+    const depthSubscription = adapter.subscribeToDepth(symbol, (depth) => {
+      latestDepth = depth;
+      if (!bucketSizeRef.current && depth.bids.length && depth.asks.length) {
+        bucketSizeRef.current = getBucketSize(depth);
+      }
+    }, (next) => {
+      status = next;
+      setBookStatus(next);
+    });
+
+    const tradeSubscription = adapter.subscribeToTrades(symbol, (trade) => {
+      tradesRef.current.push({ time: Date.now(), price: trade.price, notional: trade.price * trade.quantity, side: trade.side });
+    }, () => {
+      reset();
+      latestDepth = null;
+    });
+
+    const sampleInterval = setInterval(() => {
+      if (!bucketSizeRef.current) return;
+      const columns = columnsRef.current;
+      columns.push(sampleColumn(latestDepth, bucketSizeRef.current, status === 'live'));
+      if (columns.length > MAX_COLUMNS) columns.splice(0, columns.length - MAX_COLUMNS);
+      const oldest = columns[0].time - COLUMN_INTERVAL;
+      if (tradesRef.current.length && tradesRef.current[0].time < oldest) {
+        tradesRef.current = tradesRef.current.filter(t => t.time >= oldest);
+      }
+      // A view scrolled into the past stays put while new columns arrive
+      if (viewRef.current.columnOffset > 0) {
+        viewRef.current.columnOffset = Math.min(viewRef.current.columnOffset + 1, columns.length - 1);
+      }
+      redraw();
+    }, COLUMN_INTERVAL);
+
+    return () => {
+      depthSubscription.close();
+      tradeSubscription.close();
+      clearInterval(sampleInterval);
+    };
+  }, [symbol, exchange]);
+
+  // Keep the canvas backing store at device resolution, and handle zoom
+  useEffect(() => {
+    const container = containerRef.current;
+    const canvas = canvasRef.current;
+    if (!container || !canvas) return;
+    const resize = () => {
+      const dpr = window.devicePixelRatio || 1;
+      canvas.width = Math.floor(container.clientWidth * dpr);
+      canvas.height = Math.floor(container.clientHeight * dpr);
+      canvas.style.width = `${container.clientWidth}px`;
+      canvas.style.height = `${container.clientHeight}px`;
+      redraw();
+    };
+    const observer = new ResizeObserver(resize);
+    observer.observe(container);
+
+    // Wheel zooms price; Shift + wheel zooms time. Registered natively so the page does not scroll.
+    const handleWheel = (e: WheelEvent) => {
+      e.preventDefault();
+      const view = viewRef.current;
+      const delta = e.deltaY || e.deltaX; // Shift + wheel scrolls horizontally in some browsers
+      const factor = delta < 0 ? ZOOM_STEP : 1 / ZOOM_STEP;
+      if (e.shiftKey) {
+        view.columnWidth = Math.min(MAX_COLUMN_WIDTH, Math.max(MIN_COLUMN_WIDTH, view.columnWidth * factor));
+      } else {
+        view.rowHeight = Math.min(MAX_ROW_HEIGHT, Math.max(MIN_ROW_HEIGHT, view.rowHeight * factor));
+      }
+      redraw();
+    };
+    container.addEventListener('wheel', handleWheel, { passive: false });
+
+    return () => {
+      observer.disconnect();
+      container.removeEventListener('wheel', handleWheel);
+    };
+  }, []);
+
+  useEffect(() => {
+    redraw();
+  }, [minNotional]);
+
+  const getCenterBucket = () => {
+    const view = viewRef.current;
+    if (view.centerBucket !== null) return view.centerBucket;
+    const columns = columnsRef.current;
+    const reference = [...columns.slice(0, columns.length - view.columnOffset)].reverse().find(c => c.sizes);
+    return reference && bucketSizeRef.current ? Math.round((reference.bestBid + reference.bestAsk) / 2 / bucketSizeRef.current) : null;
+  };
+
+  // Dragging pans both axes and stops following the live edge
+  const handleMouseDown = (e: React.MouseEvent) => {
+    const startX = e.clientX;
+    const startY = e.clientY;
+    const startOffset = viewRef.current.columnOffset;
+    const startCenter = getCenterBucket();
+    if (startCenter === null) return;
+
+    const handleMove = (move: MouseEvent) => {
+      const view = viewRef.current;
+      view.columnOffset = Math.max(0, Math.min(columnsRef.current.length - 1, Math.round(startOffset + (move.clientX - startX) / view.columnWidth)));
+      view.centerBucket = Math.round(startCenter + (move.clientY - startY) / view.rowHeight);
+      setIsFollowing(false);
+      redraw();
+    };
+    const handleUp = () => {
+      window.removeEventListener('mousemove', handleMove);
+      window.removeEventListener('mouseup', handleUp);
+    };
+    window.addEventListener('mousemove', handleMove);
+    window.addEventListener('mouseup', handleUp);
+  };
+
+  const followLive = () => {
+    viewRef.current = { ...viewRef.current, centerBucket: null, columnOffset: 0 };
+    setIsFollowing(true);
+    redraw();
+  };
+
+  return (
+    <div className="bg-terminal-panel border border-terminal-border rounded-lg h-full flex flex-col overflow-hidden">
+      <div className="p-4 border-b border-terminal-border flex justify-between items-start shrink-0">
+        <div>
+          <h2 className="font-bold text-sm uppercase tracking-wider flex items-center gap-2">
+            <Grid3x3 size={16} className="text-terminal-yellow" />
+            Liquidity Heatmap <span className="text-terminal-muted">({symbol})</span>
+            {bookStatus !== 'live' && (
+              <span className="px-1.5 py-0.5 rounded text-[9px] font-mono border bg-terminal-yellow/10 text-terminal-yellow border-terminal-yellow/30">
+                {bookStatus === 'desynced' ? 'DESYNCED' : 'SYNCING'}
+              </span>
+            )}
+          </h2>
+          <p className="text-[10px] text-terminal-muted mt-1">
+            Resting size over time · bubbles are trades · wheel zooms price, Shift + wheel zooms time, drag to pan
+          </p>
+        </div>
+        <div className="flex items-center gap-2">
+          {!isFollowing && (
+            <button
+              onClick={followLive}
+              className="flex items-center gap-1 px-2 py-0.5 rounded border border-terminal-yellow/40 text-terminal-yellow text-[10px] font-mono hover:bg-terminal-yellow/10 transition-colors"
+            >
+              <Radio size={10} /> LIVE
+            </button>
+          )}
+          <StreamHealthBadge symbol={symbol} exchange={exchange} compact />
+          <ExchangeSelect value={exchange} onChange={setExchange} />
+          <select
+            value={minNotional}
+            onChange={(e) => setMinNotional(Number(e.target.value))}
+            title="Smallest trade drawn as a bubble"
+            className="bg-terminal-bg border border-terminal-border rounded px-1.5 py-0.5 text-[10px] font-mono text-terminal-text outline-none"
+          >
+            <option value="0">All trades</option>
+            <option value="10000">$10k+</option>
+            <option value="50000">$50k+</option>
+            <option value="100000">$100k+</option>
+            <option value="500000">$500k+</option>
+          </select>
+        </div>
+      </div>
+
+      <div
+        ref={containerRef}
+        onMouseDown={handleMouseDown}
+        className="flex-1 min-h-0 relative cursor-crosshair select-none"
+      >
+        <canvas ref={canvasRef} className="absolute inset-0" />
+      </div>
+    </div>
+  );
+};
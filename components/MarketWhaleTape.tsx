@@ -0,0 +1,288 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { ArrowDownRight, ArrowUpRight, Filter, Pause, Play, Radar } from 'lucide-react';
+import { getExchange, DEFAULT_EXCHANGE } from '../services/exchanges';
+import { ExchangeId, MarketSubscription, MarketTicker, MarketTrade, WhaleThresholds } from '../types';
+import { createTradeSizeStats, getAdaptiveThresholds, TradeSizeStats } from '../services/whaleThresholds';
+import { formatPrice } from '../services/symbolRegistry';
+import { useSymbols } from '../hooks/useSymbolInfo';
+import { useActiveWatchlist } from '../hooks/useWatchlist';
+import { useScannerCandidates } from '../hooks/useScannerCandidates';
+import { ExchangeSelect } from './ExchangeSelect';
+
+interface MarketWhaleTapeProps {
+  onSelectSymbol: (symbol: string) => void;
+}
+
+type TapeSource = 'watchlist' | 'scanner' | 'top';
+
+const TOP_COUNTS = [10, 20, 30];
+
+// Upper bound on symbols streamed at once, whatever the source
+const MAX_TAPE_SYMBOLS = 30;
+
+const MAX_TAPE_ROWS = 100;
+
+// Manual mode flags prints from this notional up as nuclear (USDT)
+const NUCLEAR_THRESHOLD = 1000000;
+
+// Adaptive thresholds are recomputed this often, and tickers refetched this often (ms)
+const ADAPTIVE_UPDATE_INTERVAL = 5000;
+const TICKER_REFRESH_INTERVAL = 5 * 60 * 1000;
+
+interface SymbolFeed {
+  subscription: MarketSubscription;
+  sizeStats: TradeSizeStats;
+}
+
+interface TapeRow extends MarketTrade {
+  value: number;
+  isNuclear: boolean;
+}
+
+const formatCompact = (val: number) => {
+  if (val >= 1000000) return '$' + (val / 1000000).toFixed(1) + 'M';
+  return '$' + (val / 1000).toFixed(0) + 'K';
+};
+
+const formatCurrency = (val: number) =>
+  new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD', maximumFractionDigits: 0 }).format(val);
+
+// One whale tape across many symbols, each judged against its own thresholds
+export const MarketWhaleTape: React.FC<MarketWhaleTapeProps> = ({ onSelectSymbol }) => {
+  const [exchange, setExchange] = useState<ExchangeId>(DEFAULT_EXCHANGE);
+  const [source, setSource] = useState<TapeSource>('top');
+  const [topCount, setTopCount] = useState(20);
+  const [threshold, setThreshold] = useState<number>(100000);
+  // Adaptive mode derives thresholds per symbol; the manual threshold applies until a symbol has data
+  const [isAdaptive, setIsAdaptive] = useState(true);
+  const [adaptiveThresholds, setAdaptiveThresholds] = useState<Record<string, WhaleThresholds>>({});
+  const [isPaused, setIsPaused] = useState(false);
+  const [rows, setRows] = useState<TapeRow[]>([]);
+  const [tickers, setTickers] = useState<MarketTicker[]>([]);
+  const watchlist = useActiveWatchlist();
+  const scannerCandidates = useScannerCandidates();
+  const symbolInfos = useSymbols(exchange);
+
+  const feedsRef = useRef<Map<string, SymbolFeed>>(new Map());
+  const rowsRef = useRef<TapeRow[]>([]);
+
+  const getThresholds = (symbol: string): WhaleThresholds =>
+    (isAdaptive && adaptiveThresholds[symbol]) || { whale: threshold, nuclear: NUCLEAR_THRESHOLD };
+  // Read from the trade callbacks, so filter changes never resubscribe
+  const getThresholdsRef = useRef(getThresholds);
+  const isPausedRef = useRef(isPaused);
+  getThresholdsRef.current = getThresholds;
+  isPausedRef.current = isPaused;
+
+  const topSymbols = [...tickers]
+    .sort((a, b) => b.quoteVolume - a.quoteVolume)
+    .slice(0, topCount)
+    .map(t => t.symbol);
+  const wanted = (source === 'watchlist' ? watchlist.symbols : source === 'scanner' ? scannerCandidates : topSymbols).slice(0, MAX_TAPE_SYMBOLS);
+
+  // Only a different symbol set reconciles the feeds, not every ticker refresh
+  const symbolsKey = wanted.join(',');
+  const symbols = useMemo(() => (symbolsKey ? symbolsKey.split(',') : []), [symbolsKey]);
+
+  // Tickers rank the top-volume source and size each symbol's volume floor
+  useEffect(() => {
+    let isCancelled = false;
+    const loadTickers = () => {
+      getExchange(exchange).getTickers().then(next => {
+        if (!isCancelled && next.length > 0) setTickers(next);
+      });
+    };
+    setTickers([]);
+    loadTickers();
+    const interval = setInterval(loadTickers, TICKER_REFRESH_INTERVAL);
+    return () => {
+      isCancelled = true;
+      clearInterval(interval);
+    };
+  }, [exchange]);
+
+  const tickersRef = useRef(tickers);
+  tickersRef.current = tickers;
+
+  useEffect(() => {
+    const interval = setInterval(() => {
+      const next: Record<string, WhaleThresholds> = {};
+      feedsRef.current.forEach((feed, symbol) => {
+        const quoteVolume = tickersRef.current.find(t => t.symbol === symbol)?.quoteVolume ?? null;
+        const thresholds = getAdaptiveThresholds(feed.sizeStats, quoteVolume);
+        if (thresholds) next[symbol] = thresholds;
+      });
+      setAdaptiveThresholds(next);
+    }, ADAPTIVE_UPDATE_INTERVAL);
+    return () => clearInterval(interval);
+  }, []);
+
+  // A venue switch starts every feed and the tape over
+  useEffect(() => {
+    return () => {
+      feedsRef.current.forEach(feed => feed.subscription.close());
+      feedsRef.current = new Map();
+      rowsRef.current = [];
+      setRows([]);
+      setAdaptiveThresholds({});
+    };
+  }, [exchange]);
+
+  // Symbols that left the set are unsubscribed and their rows dropped; new ones are subscribed
+  useEffect(() => {
+    const feeds = feedsRef.current;
+    const adapter = getExchange(exchange);
+
+    feeds.forEach((feed, symbol) => {
+      if (symbols.includes(symbol)) return;
+      feed.subscription.close();
+      feeds.delete(symbol);
+    });
+    rowsRef.current = rowsRef.current.filter(r => symbols.includes(r.symbol));
+    setRows(rowsRef.current);
+
+    symbols.forEach(symbol => {
+      if (feeds.has(symbol)) return;
+      const sizeStats = createTradeSizeStats();
+      const subscription = adapter.subscribeToTrades(symbol, (trade) => {
+        const value = trade.price * trade.quantity;
+        sizeStats.add(value);
+        if (isPausedRef.current) return;
+
+        const thresholds = getThresholdsRef.current(symbol);
+        if (value < thresholds.whale) return;
+
+        rowsRef.current = [{ ...trade, value, isNuclear: value >= thresholds.nuclear }, ...rowsRef.current].slice(0, MAX_TAPE_ROWS);
+        setRows(rowsRef.current);
+      }, () => {
+        sizeStats.reset();
+        rowsRef.current = rowsRef.current.filter(r => r.symbol !== symbol);
+        setRows(rowsRef.current);
+      });
+      feeds.set(symbol, { subscription, sizeStats });
+    });
+  }, [symbols, exchange]);
+
+  const sourceNote = source === 'scanner' && scannerCandidates.length === 0
+    ? 'Waiting for scanner candidates...'
+    : source === 'top' && tickers.length === 0
+      ? 'Loading tickers...'
+      : `${symbols.length} symbols`;
+
+  return (
+    <div className="flex flex-col h-full bg-terminal-panel border border-terminal-border rounded-lg overflow-hidden">
+      <div className="p-4 border-b border-terminal-border flex items-center justify-between shrink-0">
+        <div>
+          <h2 className="font-bold text-sm uppercase tracking-wider flex items-center gap-2">
+            <Radar size={16} className="text-terminal-yellow" />
+            Market Whale Tape
+          </h2>
+          <p className="text-[10px] text-terminal-muted mt-1">{sourceNote} · click a print to open its symbol</p>
+        </div>
+
+        <div className="flex items-center gap-2">
+          <select
+            value={source}
+            onChange={(e) => setSource(e.target.value as TapeSource)}
+            title="Symbols to follow"
+            className="bg-terminal-bg border border-terminal-border rounded px-1.5 py-0.5 text-[10px] font-mono text-terminal-text outline-none"
+          >
+            <option value="top">Top by volume</option>
+            <option value="watchlist">Watchlist: {watchlist.name}</option>
+            <option value="scanner">Scanner picks</option>
+          </select>
+          {source === 'top' && (
+            <select
+              value={topCount}
+              onChange={(e) => setTopCount(Number(e.target.value))}
+              title="Number of symbols"
+              className="bg-terminal-bg border border-terminal-border rounded px-1.5 py-0.5 text-[10px] font-mono text-terminal-text outline-none"
+            >
+              {TOP_COUNTS.map(n => <option key={n} value={n}>Top {n}</option>)}
+            </select>
+          )}
+          <ExchangeSelect value={exchange} onChange={setExchange} />
+          <button
+            onClick={() => setIsPaused(!isPaused)}
+            className="p-1.5 hover:bg-terminal-border rounded text-terminal-muted hover:text-white transition-colors"
+          >
+            {isPaused ? <Play size={14} /> : <Pause size={14} />}
+          </button>
+          <div className="flex items-center bg-terminal-bg border border-terminal-border rounded px-2 py-1 gap-2">
+            <Filter size={12} className="text-terminal-muted" />
+            <select
+              value={isAdaptive ? 'auto' : threshold}
+              onChange={(e) => {
+                setIsAdaptive(e.target.value === 'auto');
+                if (e.target.value !== 'auto') setThreshold(Number(e.target.value));
+              }}
+              title={isAdaptive ? 'Each symbol uses its own adaptive thresholds' : `Whale ≥ ${formatCompact(threshold)} on every symbol`}
+              className="bg-transparent text-xs font-mono text-terminal-text outline-none"
+            >
+              <option value="auto">Auto (per symbol)</option>
+              <option value="50000">$50k (Degen)</option>
+              <option value="100000">$100k (Standard)</option>
+              <option value="500000">$500k (Large)</option>
+              <option value="1000000">$1M (Whale)</option>
+            </select>
+          </div>
+        </div>
+      </div>
+
+      {/* Followed symbols with the threshold each is filtered at */}
+      <div className="px-4 py-2 border-b border-terminal-border flex flex-wrap items-center gap-1 text-[10px] font-mono shrink-0">
+        {symbols.map(symbol => (
+          <span key={symbol} className="flex items-center gap-1 px-1.5 py-0.5 rounded bg-terminal-bg border border-terminal-border">
+            <button onClick={() => onSelectSymbol(symbol)} className="text-terminal-text hover:text-white">{symbol}</button>
+            <span className="text-terminal-muted">≥ {formatCompact(getThresholds(symbol).whale)}</span>
+          </span>
+        ))}
+      </div>
+
+      <div className="flex-1 overflow-y-auto">
+        <table className="w-full text-left border-collapse">
+          <thead className="sticky top-0 bg-terminal-panel z-10 text-[10px] text-terminal-muted uppercase font-mono border-b border-terminal-border shadow-sm">
+            <tr>
+              <th className="px-4 py-2">Time</th>
+              <th className="px-4 py-2">Symbol</th>
+              <th className="px-4 py-2">Side</th>
+              <th className="px-4 py-2">Price</th>
+              <th className="px-4 py-2 text-right">Value (USDT)</th>
+            </tr>
+          </thead>
+          <tbody className="font-mono text-xs">
+            {rows.length === 0 ? (
+              <tr>
+                <td colSpan={5} className="px-4 py-12 text-center text-terminal-muted italic">
+                  Waiting for whale prints...
+                </td>
+              </tr>
+            ) : (
+              rows.map(row => (
+                <tr
+                  key={`${row.symbol}:${row.id}`}
+                  onClick={() => onSelectSymbol(row.symbol)}
+                  title={`Open ${row.symbol}`}
+                  className={`border-b border-terminal-border/50 hover:bg-terminal-border/30 transition-colors cursor-pointer ${row.isNuclear ? 'bg-terminal-yellow/5' : ''}`}
+                >
+                  <td className="px-4 py-2 text-terminal-muted">
+                    {new Date(row.time).toLocaleTimeString([], { hour12: false, hour: '2-digit', minute: '2-digit', second: '2-digit' })}
+                  </td>
+                  <td className="px-4 py-2 font-bold text-terminal-text">{row.symbol}</td>
+                  <td className={`px-4 py-2 font-bold flex items-center gap-1 ${row.side === 'buy' ? 'text-terminal-green' : 'text-terminal-red'}`}>
+                    {row.side === 'buy' ? <ArrowUpRight size={14} /> : <ArrowDownRight size={14} />}
+                    {row.side === 'buy' ? 'BUY' : 'SELL'}
+                  </td>
+                  <td className="px-4 py-2 text-terminal-text">{formatPrice(row.price, symbolInfos?.get(row.symbol))}</td>
+                  <td className={`px-4 py-2 text-right font-bold ${row.isNuclear ? 'text-terminal-yellow' : 'text-terminal-text'}`}>
+                    {formatCurrency(row.value)}
+                  </td>
+                </tr>
+              ))
+            )}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
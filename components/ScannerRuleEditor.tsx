@@ -0,0 +1,159 @@
+import React, { useState } from 'react';
+import { Plus, Trash2, X } from 'lucide-react';
+import { ScannerField, ScannerFilterRule, ScannerOperator, ScannerPreset, ScannerScoreTerm } from '../types';
+import { SCANNER_FIELDS, SCANNER_OPERATORS } from '../services/scannerRules';
+import { ScannerPresets, DEFAULT_PRESET_ID } from '../services/scannerPresets';
+import { createId } from '../services/store';
+
+interface ScannerRuleEditorProps {
+  preset: ScannerPreset;
+  onClose: () => void;
+}
+
+const FIELD_OPTIONS = Object.keys(SCANNER_FIELDS) as ScannerField[];
+
+const inputClass = 'bg-terminal-bg border border-terminal-border rounded px-1.5 py-0.5 text-[10px] font-mono text-terminal-text outline-none';
+
+const FieldSelect: React.FC<{ value: ScannerField; onChange: (field: ScannerField) => void }> = ({ value, onChange }) => (
+  <select value={value} onChange={(e) => onChange(e.target.value as ScannerField)} className={`${inputClass} flex-1`}>
+    {FIELD_OPTIONS.map(field => (
+      <option key={field} value={field}>{SCANNER_FIELDS[field].label} ({SCANNER_FIELDS[field].unit})</option>
+    ))}
+  </select>
+);
+
+// Edits a copy of the preset; nothing is stored until Save
+export const ScannerRuleEditor: React.FC<ScannerRuleEditorProps> = ({ preset, onClose }) => {
+  const isBuiltIn = preset.id === DEFAULT_PRESET_ID;
+  const [name, setName] = useState(isBuiltIn ? `${preset.name} (copy)` : preset.name);
+  const [filters, setFilters] = useState<ScannerFilterRule[]>(preset.filters);
+  const [terms, setTerms] = useState<ScannerScoreTerm[]>(preset.terms);
+
+  const updateFilter = (index: number, patch: Partial<ScannerFilterRule>) => {
+    setFilters(filters.map((f, i) => (i === index ? { ...f, ...patch } : f)));
+  };
+
+  const updateTerm = (index: number, patch: Partial<ScannerScoreTerm>) => {
+    setTerms(terms.map((t, i) => (i === index ? { ...t, ...patch } : t)));
+  };
+
+  const save = (asNew: boolean) => {
+    ScannerPresets.save({
+      id: asNew || isBuiltIn ? createId() : preset.id,
+      name: name.trim() || 'Untitled',
+      filters,
+      terms
+    });
+    onClose();
+  };
+
+  const remove = () => {
+    ScannerPresets.remove(preset.id);
+    onClose();
+  };
+
+  return (
+    <div className="flex-1 overflow-y-auto p-4 space-y-4 text-[10px] font-mono text-terminal-muted">
+      <div className="flex items-center gap-2">
+        <input value={name} onChange={(e) => setName(e.target.value)} placeholder="Preset name" className={`${inputClass} flex-1 text-xs`} />
+        <button onClick={onClose} title="Close" className="p-1 hover:bg-terminal-border rounded hover:text-white transition-colors">
+          <X size={14} />
+        </button>
+      </div>
+
+      <div>
+        <div className="uppercase font-bold mb-2">Filters <span className="font-normal normal-case">(all must pass; written for short squeezes, funding and 24h change flip for long squeezes)</span></div>
+        <div className="space-y-1.5">
+          {filters.map((rule, index) => (
+            <div key={index} className="flex items-center gap-1.5">
+              <FieldSelect value={rule.field} onChange={(field) => updateFilter(index, { field })} />
+              <select
+                value={rule.operator}
+                onChange={(e) => updateFilter(index, { operator: e.target.value as ScannerOperator })}
+                className={inputClass}
+              >
+                {SCANNER_OPERATORS.map(op => <option key={op} value={op}>{op}</option>)}
+              </select>
+              <input
+                type="number"
+                step="any"
+                value={rule.value}
+                onChange={(e) => updateFilter(index, { value: Number(e.target.value) })}
+                className={`${inputClass} w-24 text-right`}
+              />
+              <button onClick={() => setFilters(filters.filter((_, i) => i !== index))} className="p-1 hover:text-terminal-red">
+                <Trash2 size={12} />
+              </button>
+            </div>
+          ))}
+        </div>
+        <button
+          onClick={() => setFilters([...filters, { field: 'fundingRate', operator: '<', value: 0 }])}
+          className="mt-2 flex items-center gap-1 hover:text-white transition-colors"
+        >
+          <Plus size={10} /> Add filter
+        </button>
+      </div>
+
+      <div>
+        <div className="uppercase font-bold mb-2">Score <span className="font-normal normal-case">(sum of value × weight)</span></div>
+        <div className="space-y-1.5">
+          {terms.map((term, index) => (
+            <div key={index} className="flex items-center gap-1.5">
+              <FieldSelect value={term.field} onChange={(field) => updateTerm(index, { field })} />
+              <label className="flex items-center gap-1" title="Use the magnitude of the value">
+                <input
+                  type="checkbox"
+                  checked={term.useAbsolute}
+                  onChange={(e) => updateTerm(index, { useAbsolute: e.target.checked })}
+                  className="accent-terminal-yellow"
+                />
+                |x|
+              </label>
+              <span>×</span>
+              <input
+                type="number"
+                step="any"
+                value={term.weight}
+                onChange={(e) => updateTerm(index, { weight: Number(e.target.value) })}
+                className={`${inputClass} w-20 text-right`}
+              />
+              <button onClick={() => setTerms(terms.filter((_, i) => i !== index))} className="p-1 hover:text-terminal-red">
+                <Trash2 size={12} />
+              </button>
+            </div>
+          ))}
+        </div>
+        <button
+          onClick={() => setTerms([...terms, { field: 'priceChangePercent', weight: 1, useAbsolute: false }])}
+          className="mt-2 flex items-center gap-1 hover:text-white transition-colors"
+        >
+          <Plus size={10} /> Add term
+        </button>
+      </div>
+
+      <div className="flex items-center justify-between pt-2 border-t border-terminal-border">
+        {isBuiltIn ? (
+          <span className="italic">Built-in preset, saved as a copy</span>
+        ) : (
+          <button onClick={remove} className="flex items-center gap-1 hover:text-terminal-red transition-colors">
+            <Trash2 size={10} /> Delete
+          </button>
+        )}
+        <div className="flex items-center gap-2">
+          {!isBuiltIn && (
+            <button onClick={() => save(true)} className="px-2 py-1 rounded border border-terminal-border hover:text-white transition-colors">
+              Save as new
+            </button>
+          )}
+          <button
+            onClick={() => save(false)}
+            className="px-2 py-1 rounded border border-terminal-yellow/40 bg-terminal-yellow/10 text-terminal-yellow hover:bg-terminal-yellow/20 transition-colors"
+          >
+            Save
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
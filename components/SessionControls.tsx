@@ -0,0 +1,173 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Circle, Square, History, Play, Pause, Download, Trash2, Upload, X } from 'lucide-react';
+import { SessionRecorder } from '../services/sessionRecorder';
+import { SessionStore } from '../services/sessionStore';
+import { ReplayPlayer, REPLAY_SPEEDS } from '../services/replayPlayer';
+import { useRecorderState, useReplayState } from '../hooks/useSessionPlayback';
+import { RecordedSessionMeta } from '../types';
+
+interface SessionControlsProps {
+  onSelectSymbol: (symbol: string) => void;
+}
+
+const formatDuration = (ms: number) => {
+  const totalSeconds = Math.floor(ms / 1000);
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  return `${minutes.toString().padStart(2, '0')}:${seconds.toString().padStart(2, '0')}`;
+};
+
+export const SessionControls: React.FC<SessionControlsProps> = ({ onSelectSymbol }) => {
+  const recorder = useRecorderState();
+  const replay = useReplayState();
+  const [sessions, setSessions] = useState<RecordedSessionMeta[]>([]);
+  const [isListOpen, setIsListOpen] = useState(false);
+  const [now, setNow] = useState(Date.now());
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const refreshSessions = () => {
+    SessionStore.list().then(setSessions);
+  };
+
+  useEffect(() => {
+    if (isListOpen) refreshSessions();
+  }, [isListOpen]);
+
+  // Tick the elapsed recording time
+  useEffect(() => {
+    if (!recorder.isRecording) return;
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, [recorder.isRecording]);
+
+  const toggleRecording = async () => {
+    if (recorder.isRecording) {
+      await SessionRecorder.stop();
+      refreshSessions();
+    } else {
+      setNow(Date.now());
+      SessionRecorder.start();
+    }
+  };
+
+  const startReplay = async (id: string) => {
+    const session = await SessionStore.load(id);
+    if (!session) return;
+    if (recorder.isRecording) await SessionRecorder.stop();
+    ReplayPlayer.load(session);
+    // Point the panels at a symbol that actually has an order book in the recording
+    const depthStream = session.streams.find(s => s.includes('@depth')) ?? session.streams[0];
+    if (depthStream) onSelectSymbol(depthStream.split('@')[0].toUpperCase());
+    setIsListOpen(false);
+  };
+
+  const deleteSession = async (id: string) => {
+    await SessionStore.remove(id);
+    refreshSessions();
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    await SessionRecorder.importFile(file);
+    refreshSessions();
+  };
+
+  if (replay.session) {
+    return (
+      <div className="flex items-center gap-2 bg-terminal-bg border border-blue-500/40 rounded px-2 py-1 text-[10px] font-mono text-terminal-muted">
+        <span className="px-1.5 py-0.5 rounded bg-blue-500/10 text-blue-400 font-bold border border-blue-500/30">REPLAY</span>
+        <button
+          onClick={() => (replay.isPlaying ? ReplayPlayer.pause() : ReplayPlayer.play())}
+          className="p-1 hover:bg-terminal-border rounded text-terminal-text hover:text-white transition-colors"
+        >
+          {replay.isPlaying ? <Pause size={12} /> : <Play size={12} />}
+        </button>
+        <input
+          type="range"
+          min={0}
+          max={replay.duration}
+          value={replay.position}
+          onChange={(e) => ReplayPlayer.seek(Number(e.target.value))}
+          className="w-40 accent-terminal-yellow"
+        />
+        <span className="text-terminal-text">{formatDuration(replay.position)} / {formatDuration(replay.duration)}</span>
+        <select
+          value={replay.speed}
+          onChange={(e) => ReplayPlayer.setSpeed(Number(e.target.value))}
+          className="bg-transparent text-terminal-text outline-none"
+        >
+          {REPLAY_SPEEDS.map(speed => <option key={speed} value={speed}>{speed}x</option>)}
+        </select>
+        <button
+          onClick={() => ReplayPlayer.stop()}
+          title="Back to live data"
+          className="p-1 hover:bg-terminal-border rounded hover:text-white transition-colors"
+        >
+          <X size={12} />
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="relative flex items-center gap-2 text-[10px] font-mono text-terminal-muted">
+      <button
+        onClick={toggleRecording}
+        title={recorder.isRecording ? 'Stop and save recording' : 'Record market session'}
+        className={`flex items-center gap-1 px-2 py-1 rounded border transition-colors ${
+          recorder.isRecording
+            ? 'border-terminal-red/40 bg-terminal-red/10 text-terminal-red'
+            : 'border-terminal-border hover:text-white'
+        }`}
+      >
+        {recorder.isRecording ? <Square size={10} /> : <Circle size={10} className="text-terminal-red" />}
+        {recorder.isRecording && recorder.startedAt !== null
+          ? <>REC {formatDuration(now - recorder.startedAt)} · {recorder.frameCount.toLocaleString()} frames</>
+          : 'REC'}
+      </button>
+      <button
+        onClick={() => setIsListOpen(!isListOpen)}
+        title="Recorded sessions"
+        className="flex items-center gap-1 px-2 py-1 rounded border border-terminal-border hover:text-white transition-colors"
+      >
+        <History size={10} /> Sessions
+      </button>
+
+      {isListOpen && (
+        <div className="absolute right-0 top-full mt-2 w-80 bg-terminal-panel border border-terminal-border rounded-lg shadow-xl z-50">
+          <div className="flex items-center justify-between p-2 border-b border-terminal-border">
+            <span className="uppercase font-bold">Recorded Sessions</span>
+            <button
+              onClick={() => fileInputRef.current?.click()}
+              className="flex items-center gap-1 hover:text-white transition-colors"
+            >
+              <Upload size={10} /> Import
+            </button>
+            <input ref={fileInputRef} type="file" accept="application/json,.json" onChange={handleImport} className="hidden" />
+          </div>
+          <div className="max-h-64 overflow-y-auto">
+            {sessions.length === 0 ? (
+              <div className="p-4 text-center italic">No recordings yet.</div>
+            ) : (
+              sessions.map(session => (
+                <div key={session.id} className="flex items-center justify-between gap-2 px-2 py-1.5 border-b border-terminal-border/30 hover:bg-white/5">
+                  <div className="min-w-0">
+                    <div className="text-terminal-text truncate">{session.name}</div>
+                    <div>{formatDuration(session.endedAt - session.startedAt)} · {session.frameCount.toLocaleString()} frames</div>
+                  </div>
+                  <div className="flex items-center gap-1 shrink-0">
+                    <button onClick={() => startReplay(session.id)} title="Replay" className="p-1 hover:text-terminal-green"><Play size={12} /></button>
+                    <button onClick={() => SessionRecorder.exportSession(session.id)} title="Download" className="p-1 hover:text-white"><Download size={12} /></button>
+                    <button onClick={() => deleteSession(session.id)} title="Delete" className="p-1 hover:text-terminal-red"><Trash2 size={12} /></button>
+                  </div>
+                </div>
+              ))
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
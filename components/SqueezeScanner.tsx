@@ -1,7 +1,45 @@
-import React, { useEffect, useState } from 'react';
-import { BinanceService } from '../services/binanceService';
-import { SqueezeCandidate, Ticker24h, PremiumIndex } from '../types';
-import { ArrowUp, RefreshCw, AlertTriangle, CheckCircle2 } from 'lucide-react';
+import React, { useEffect, useRef, useState } from 'react';
+import { getExchange, DEFAULT_EXCHANGE } from '../services/exchanges';
+import { SqueezeCandidate, SqueezeDirection, OpenInterestStats, ExchangeId } from '../types';
+import { ArrowUp, ArrowDown, RefreshCw, AlertTriangle, CheckCircle2, SlidersHorizontal } from 'lucide-react';
+import { ExchangeSelect } from './ExchangeSelect';
+import { ScannerRuleEditor } from './ScannerRuleEditor';
+import { getOpenInterestStats } from '../services/openInterest';
+import { passesFilters, scoreCandidate } from '../services/scannerRules';
+import { ScannerPresets } from '../services/scannerPresets';
+import { ScannerCandidates } from '../services/scannerCandidates';
+import { useScannerPresets } from '../hooks/useScannerPresets';
+import { useSymbols } from '../hooks/useSymbolInfo';
+import { useMarketTickers } from '../hooks/useMarketTickers';
+import { formatPrice } from '../services/symbolRegistry';
+
+// Open interest needs two requests per symbol, so only the best-ranked candidates get it
+const OI_CANDIDATE_LIMIT = 25;
+const OI_REFRESH_INTERVAL = 60000;
+
+const SCORE_FLASH_MIN_CHANGE = 0.01;
+const SCORE_FLASH_DURATION = 600;
+
+type ScoreFlash = 'up' | 'down';
+
+const getRowKey = (candidate: SqueezeCandidate) => `${candidate.symbol}-${candidate.direction}`;
+
+const OiChange: React.FC<{ value: number | null | undefined }> = ({ value }) => {
+  if (value === null || value === undefined) return <span className="text-terminal-muted">--</span>;
+  return (
+    <span className={value >= 0 ? 'text-terminal-green' : 'text-terminal-red'}>
+      {value >= 0 ? '+' : ''}{value.toFixed(1)}%
+    </span>
+  );
+};
+
+type ScanSide = SqueezeDirection | 'both';
+
+const SIDE_OPTIONS: { value: ScanSide; label: string; title: string }[] = [
+  { value: 'bull', label: 'Shorts', title: 'Short squeezes: negative funding, rising price' },
+  { value: 'bear', label: 'Longs', title: 'Long squeezes: positive funding, falling price' },
+  { value: 'both', label: 'Both', title: 'Both sides' }
+];
 
 interface SqueezeScannerProps {
   onSelectSymbol: (symbol: string) => void;
@@ -9,68 +47,140 @@ interface SqueezeScannerProps {
 
 export const SqueezeScanner: React.FC<SqueezeScannerProps> = ({ onSelectSymbol }) => {
   const [candidates, setCandidates] = useState<SqueezeCandidate[]>([]);
-  const [loading, setLoading] = useState(true);
-  const [lastUpdated, setLastUpdated] = useState<Date | null>(null);
-
-  const fetchData = async () => {
-    setLoading(true);
-    try {
-      const [tickers, premiumIndices] = await Promise.all([
-        BinanceService.get24hrTicker(),
-        BinanceService.getPremiumIndex()
-      ]);
-
-      // Map for fast lookup
-      const tickerMap = new Map<string, Ticker24h>();
-      tickers.forEach(t => tickerMap.set(t.symbol, t));
-
-      const foundCandidates: SqueezeCandidate[] = [];
-
-      premiumIndices.forEach(p => {
-        const ticker = tickerMap.get(p.symbol);
-        if (!ticker) return;
-
-        const fundingRate = parseFloat(p.lastFundingRate);
-        const priceChange = parseFloat(ticker.priceChangePercent);
-        const volume = parseFloat(ticker.quoteVolume);
-
-        // Filter Logic:
-        // 1. Negative Funding (Shorts paying Longs)
-        // 2. Price is UP (Shorts are underwater)
-        // 3. Decent Volume (> 50M USDT) to avoid scams
-        if (fundingRate < -0.0005 && priceChange > 0 && volume > 10000000) {
-           // Score calculation: Lower funding + Higher price change = Higher Squeeze Probability
-           const score = (Math.abs(fundingRate) * 1000) + priceChange;
-           
-           foundCandidates.push({
-             symbol: p.symbol,
-             price: parseFloat(ticker.lastPrice),
-             priceChangePercent: priceChange,
-             fundingRate: fundingRate,
-             volume: volume,
-             score: score
-           });
-        }
+  const [flashes, setFlashes] = useState<Record<string, ScoreFlash>>({});
+  const [exchange, setExchange] = useState<ExchangeId>(DEFAULT_EXCHANGE);
+  const symbols = useSymbols(exchange);
+  // Re-ranked whenever the hook folds in new stream frames, at most once a second
+  const market = useMarketTickers(exchange);
+  const { isStreaming, isLoading: loading, lastUpdated } = market;
+  const marketRef = useRef(market);
+  marketRef.current = market;
+  const exchangeRef = useRef(exchange); // Lets a slow response notice the venue changed meanwhile
+  exchangeRef.current = exchange;
+  const presetState = useScannerPresets();
+  const preset = presetState.presets.find(p => p.id === presetState.activeId) ?? presetState.presets[0];
+  const [isEditing, setIsEditing] = useState(false);
+  const [side, setSide] = useState<ScanSide>('both');
+  // The open interest timer outlives renders, so it reads the rules and market data through refs
+  const presetRef = useRef(preset);
+  presetRef.current = preset;
+  const sideRef = useRef(side);
+  sideRef.current = side;
+
+  // Open interest per symbol, fetched for the best-ranked rows only
+  const openInterestRef = useRef(new Map<string, OpenInterestStats>());
+  const candidatesRef = useRef<SqueezeCandidate[]>([]);
+  const scoresRef = useRef(new Map<string, number>()); // Previous score per row, for the flash
+
+  // Rebuild the candidate list from the merged market state
+  const evaluate = () => {
+    const { tickers, funding } = marketRef.current;
+    const preset = presetRef.current;
+    const side = sideRef.current;
+    const directions: SqueezeDirection[] = side === 'both' ? ['bull', 'bear'] : [side];
+    const foundCandidates: SqueezeCandidate[] = [];
+
+    funding.forEach(p => {
+      const ticker = tickers.get(p.symbol);
+      if (!ticker) return;
+      const openInterest = openInterestRef.current.get(p.symbol);
+
+      directions.forEach(direction => {
+        const candidate: SqueezeCandidate = {
+          symbol: p.symbol,
+          direction,
+          price: ticker.lastPrice,
+          priceChangePercent: ticker.priceChangePercent,
+          fundingRate: p.fundingRate,
+          volume: ticker.quoteVolume,
+          openInterest,
+          score: 0
+        };
+        // Rules over open interest apply once it has been fetched for the symbol
+        if (!passesFilters(candidate, preset.filters, openInterest !== undefined)) return;
+        candidate.score = scoreCandidate(candidate, preset.terms);
+        foundCandidates.push(candidate);
       });
+    });
+
+    // Sort by score descending
+    foundCandidates.sort((a, b) => b.score - a.score);
 
-      // Sort by score descending
-      foundCandidates.sort((a, b) => b.score - a.score);
-      setCandidates(foundCandidates);
-      setLastUpdated(new Date());
+    const nextFlashes: Record<string, ScoreFlash> = {};
+    const nextScores = new Map<string, number>();
+    foundCandidates.forEach(c => {
+      const key = getRowKey(c);
+      const previous = scoresRef.current.get(key);
+      if (previous !== undefined && Math.abs(c.score - previous) >= SCORE_FLASH_MIN_CHANGE) {
+        nextFlashes[key] = c.score > previous ? 'up' : 'down';
+      }
+      nextScores.set(key, c.score);
+    });
+    scoresRef.current = nextScores;
+
+    candidatesRef.current = foundCandidates;
+    setCandidates(foundCandidates);
+    setFlashes(nextFlashes);
+  };
 
-    } catch (e) {
-      console.error(e);
-    } finally {
-      setLoading(false);
-    }
+  // Open interest is REST only, so it is refreshed for the best-ranked rows on a slower cycle
+  const refreshOpenInterest = async () => {
+    const adapter = getExchange(exchange);
+    const symbols = Array.from(new Set<string>(candidatesRef.current.map(c => c.symbol))).slice(0, OI_CANDIDATE_LIMIT);
+    const results = await Promise.all(symbols.map(symbol => getOpenInterestStats(adapter, symbol)));
+    if (adapter.id !== exchangeRef.current) return;
+    results.forEach((stats, i) => {
+      if (stats) openInterestRef.current.set(symbols[i], stats);
+    });
+    evaluate();
   };
 
   useEffect(() => {
-    fetchData();
-    const interval = setInterval(fetchData, 60000); // Update every minute
-    return () => clearInterval(interval);
+    openInterestRef.current = new Map();
+    scoresRef.current = new Map();
+    candidatesRef.current = [];
+    setCandidates([]);
+  }, [exchange]);
+
+  useEffect(() => {
+    evaluate();
+  }, [market.tickers, market.funding]);
+
+  // Open interest follows once the first ranking exists
+  const hasCandidates = candidates.length > 0;
+  useEffect(() => {
+    if (!hasCandidates) return;
+    refreshOpenInterest();
+    const openInterestInterval = setInterval(refreshOpenInterest, OI_REFRESH_INTERVAL);
+    return () => clearInterval(openInterestInterval);
+  }, [exchange, hasCandidates]);
+
+  // Rule and side changes re-rank the data already held, without flashing every row
+  useEffect(() => {
+    scoresRef.current = new Map();
+    evaluate();
+  }, [preset, side]);
+
+  // Other panels can follow the ranked symbols while this scanner is open
+  const candidatesOwnerRef = useRef<number | null>(null);
+  useEffect(() => {
+    const owner = ScannerCandidates.register();
+    candidatesOwnerRef.current = owner;
+    return () => ScannerCandidates.release(owner);
   }, []);
 
+  useEffect(() => {
+    if (candidatesOwnerRef.current === null) return;
+    ScannerCandidates.publish(candidatesOwnerRef.current, Array.from(new Set(candidates.map(c => c.symbol))));
+  }, [candidates]);
+
+  // Flashes fade out via the row's color transition
+  useEffect(() => {
+    if (Object.keys(flashes).length === 0) return;
+    const timeout = setTimeout(() => setFlashes({}), SCORE_FLASH_DURATION);
+    return () => clearTimeout(timeout);
+  }, [flashes]);
+
   return (
     <div className="bg-terminal-panel border border-terminal-border rounded-lg flex flex-col h-full">
       <div className="p-4 border-b border-terminal-border flex justify-between items-center">
@@ -80,65 +190,114 @@ export const SqueezeScanner: React.FC<SqueezeScannerProps> = ({ onSelectSymbol }
             Squeeze Scanner
           </h2>
           <p className="text-[10px] text-terminal-muted mt-1">
-            Detecting: <span className="text-terminal-red">Neg Funding</span> + <span className="text-terminal-green">Rising Price</span>
+            Preset: <span className="text-terminal-text">{preset.name}</span> · {preset.filters.length} filters · {preset.terms.length} score terms
           </p>
         </div>
-        <button 
-          onClick={fetchData} 
-          className={`p-2 rounded hover:bg-terminal-border text-terminal-muted hover:text-white transition-all ${loading ? 'animate-spin' : ''}`}
-        >
-          <RefreshCw size={16} />
-        </button>
+        <div className="flex items-center gap-1">
+          <select
+            value={preset.id}
+            onChange={(e) => { setIsEditing(false); ScannerPresets.setActive(e.target.value); }}
+            title="Scanner preset"
+            className="bg-terminal-bg border border-terminal-border rounded px-1.5 py-0.5 text-[10px] font-mono text-terminal-text outline-none max-w-[8rem]"
+          >
+            {presetState.presets.map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+          </select>
+          <button
+            onClick={() => setIsEditing(!isEditing)}
+            title="Edit filter and scoring rules"
+            className={`p-2 rounded hover:bg-terminal-border transition-all ${isEditing ? 'text-terminal-yellow' : 'text-terminal-muted hover:text-white'}`}
+          >
+            <SlidersHorizontal size={16} />
+          </button>
+          <div className="flex rounded border border-terminal-border overflow-hidden text-[10px] font-mono">
+            {SIDE_OPTIONS.map(option => (
+              <button
+                key={option.value}
+                onClick={() => setSide(option.value)}
+                title={option.title}
+                className={`px-1.5 py-0.5 transition-colors ${side === option.value ? 'bg-terminal-border text-white' : 'text-terminal-muted hover:text-white'}`}
+              >
+                {option.label}
+              </button>
+            ))}
+          </div>
+          <ExchangeSelect value={exchange} onChange={setExchange} />
+          <button 
+            onClick={market.refresh} 
+            className={`p-2 rounded hover:bg-terminal-border text-terminal-muted hover:text-white transition-all ${loading ? 'animate-spin' : ''}`}
+          >
+            <RefreshCw size={16} />
+          </button>
+        </div>
       </div>
 
-      <div className="overflow-auto flex-1">
-        <table className="w-full text-left border-collapse">
-          <thead className="sticky top-0 bg-terminal-panel z-10 text-[10px] text-terminal-muted uppercase font-mono border-b border-terminal-border">
-            <tr>
-              <th className="px-4 py-2">Symbol</th>
-              <th className="px-4 py-2 text-right">Price</th>
-              <th className="px-4 py-2 text-right">24h Chg</th>
-              <th className="px-4 py-2 text-right">Funding</th>
-              <th className="px-4 py-2 text-center">Setup</th>
-            </tr>
-          </thead>
-          <tbody className="font-mono text-xs">
-            {loading && candidates.length === 0 ? (
-              <tr><td colSpan={5} className="text-center py-8 text-terminal-muted">Scanning market...</td></tr>
-            ) : candidates.length === 0 ? (
-              <tr><td colSpan={5} className="text-center py-8 text-terminal-muted">No high-probability squeeze setups found.</td></tr>
-            ) : (
-              candidates.map((coin) => (
-                <tr 
-                  key={coin.symbol} 
-                  onClick={() => onSelectSymbol(coin.symbol)}
-                  className="border-b border-terminal-border/50 hover:bg-terminal-border/30 cursor-pointer transition-colors group"
-                >
-                  <td className="px-4 py-3 font-bold text-terminal-text group-hover:text-terminal-yellow">
-                    {coin.symbol}
-                  </td>
-                  <td className="px-4 py-3 text-right">
-                    ${coin.price}
-                  </td>
-                  <td className="px-4 py-3 text-right text-terminal-green">
-                    +{coin.priceChangePercent.toFixed(2)}%
-                  </td>
-                  <td className="px-4 py-3 text-right text-terminal-red font-bold">
-                    {(coin.fundingRate * 100).toFixed(4)}%
-                  </td>
-                  <td className="px-4 py-3 text-center">
-                    <span className="inline-flex items-center gap-1 px-2 py-0.5 rounded text-[10px] bg-terminal-green/10 text-terminal-green border border-terminal-green/20">
-                       BULL <ArrowUp size={10} />
-                    </span>
-                  </td>
-                </tr>
-              ))
-            )}
-          </tbody>
-        </table>
-      </div>
-      <div className="p-2 border-t border-terminal-border text-[10px] text-terminal-muted text-right">
-        Last updated: {lastUpdated ? lastUpdated.toLocaleTimeString() : '--:--'}
+      {isEditing ? (
+        <ScannerRuleEditor key={preset.id} preset={preset} onClose={() => setIsEditing(false)} />
+      ) : (
+        <div className="overflow-auto flex-1">
+          <table className="w-full text-left border-collapse">
+            <thead className="sticky top-0 bg-terminal-panel z-10 text-[10px] text-terminal-muted uppercase font-mono border-b border-terminal-border">
+              <tr>
+                <th className="px-4 py-2">Symbol</th>
+                <th className="px-4 py-2 text-right">Price</th>
+                <th className="px-4 py-2 text-right">24h Chg</th>
+                <th className="px-4 py-2 text-right">Funding</th>
+                <th className="px-2 py-2 text-right">OI 5m</th>
+                <th className="px-2 py-2 text-right">OI 1h</th>
+                <th className="px-2 py-2 text-right">OI 4h</th>
+                <th className="px-4 py-2 text-center">Setup</th>
+              </tr>
+            </thead>
+            <tbody className="font-mono text-xs">
+              {loading && candidates.length === 0 ? (
+                <tr><td colSpan={8} className="text-center py-8 text-terminal-muted">Scanning market...</td></tr>
+              ) : candidates.length === 0 ? (
+                <tr><td colSpan={8} className="text-center py-8 text-terminal-muted">No symbols match this preset.</td></tr>
+              ) : (
+                candidates.map((coin) => (
+                  <tr 
+                    key={getRowKey(coin)}
+                    onClick={() => onSelectSymbol(coin.symbol)}
+                    className={`border-b border-terminal-border/50 hover:bg-terminal-border/30 cursor-pointer transition-colors duration-500 group ${
+                      flashes[getRowKey(coin)] === 'up' ? 'bg-terminal-green/20' : flashes[getRowKey(coin)] === 'down' ? 'bg-terminal-red/20' : ''
+                    }`}
+                  >
+                    <td className="px-4 py-3 font-bold text-terminal-text group-hover:text-terminal-yellow">
+                      {coin.symbol}
+                    </td>
+                    <td className="px-4 py-3 text-right">
+                      ${formatPrice(coin.price, symbols?.get(coin.symbol))}
+                    </td>
+                    <td className={`px-4 py-3 text-right ${coin.priceChangePercent >= 0 ? 'text-terminal-green' : 'text-terminal-red'}`}>
+                      {coin.priceChangePercent >= 0 ? '+' : ''}{coin.priceChangePercent.toFixed(2)}%
+                    </td>
+                    <td className={`px-4 py-3 text-right font-bold ${coin.fundingRate < 0 ? 'text-terminal-red' : 'text-terminal-green'}`}>
+                      {(coin.fundingRate * 100).toFixed(4)}%
+                    </td>
+                    <td className="px-2 py-3 text-right"><OiChange value={coin.openInterest?.change5m} /></td>
+                    <td className="px-2 py-3 text-right"><OiChange value={coin.openInterest?.change1h} /></td>
+                    <td className="px-2 py-3 text-right"><OiChange value={coin.openInterest?.change4h} /></td>
+                    <td className="px-4 py-3 text-center">
+                      {coin.direction === 'bull' ? (
+                        <span className="inline-flex items-center gap-1 px-2 py-0.5 rounded text-[10px] bg-terminal-green/10 text-terminal-green border border-terminal-green/20">
+                           BULL <ArrowUp size={10} />
+                        </span>
+                      ) : (
+                        <span className="inline-flex items-center gap-1 px-2 py-0.5 rounded text-[10px] bg-terminal-red/10 text-terminal-red border border-terminal-red/20">
+                           BEAR <ArrowDown size={10} />
+                        </span>
+                      )}
+                    </td>
+                  </tr>
+                ))
+              )}
+            </tbody>
+          </table>
+        </div>
+      )}
+      <div className="p-2 border-t border-terminal-border text-[10px] text-terminal-muted flex justify-between">
+        <span className={isStreaming ? 'text-terminal-green' : ''}>{isStreaming ? '● Live stream' : '○ REST polling (60s)'}</span>
+        <span>Last updated: {lastUpdated ? lastUpdated.toLocaleTimeString() : '--:--'}</span>
       </div>
     </div>
   );
@@ -0,0 +1,44 @@
+import React from 'react';
+import { useStreamHealth } from '../hooks/useStreamHealth';
+import { ExchangeId } from '../types';
+
+interface StreamHealthBadgeProps {
+  symbol?: string; // Omit for the aggregate of every open stream
+  exchange?: ExchangeId;
+  compact?: boolean; // Dot + latency only, for panel headers
+}
+
+const STATUS_STYLES = {
+  live: { dot: 'bg-terminal-green', label: 'Live Conn' },
+  degraded: { dot: 'bg-terminal-yellow animate-pulse', label: 'Reconnecting' },
+  down: { dot: 'bg-terminal-red animate-pulse', label: 'Disconnected' },
+  idle: { dot: 'bg-terminal-muted', label: 'No Streams' },
+  replay: { dot: 'bg-blue-400', label: 'Replay' }
+};
+
+export const StreamHealthBadge: React.FC<StreamHealthBadgeProps> = ({ symbol, exchange, compact = false }) => {
+  const { streams, summary } = useStreamHealth(symbol, exchange);
+  const style = STATUS_STYLES[summary.status];
+
+  // Latency above 1s usually means the tab is throttled or the local clock is off
+  const latencyColor = summary.latencyMs === null ? 'text-terminal-muted'
+    : summary.latencyMs > 1000 ? 'text-terminal-red'
+    : summary.latencyMs > 250 ? 'text-terminal-yellow'
+    : 'text-terminal-green';
+
+  const tooltip = streams
+    .map(s => `${s.exchange} ${s.stream}: ${s.status}${s.latencyMs !== null ? ` ${Math.round(s.latencyMs)}ms` : ''}${s.reconnects ? ` (${s.reconnects} reconnects)` : ''}`)
+    .join('\n');
+
+  return (
+    <span title={tooltip || style.label} className="flex items-center gap-2 text-[10px] text-terminal-muted font-mono">
+      <span className="flex items-center gap-1">
+        <span className={`w-2 h-2 rounded-full ${style.dot}`}></span>
+        {!compact && <>{style.label}{summary.status === 'degraded' && ` ${summary.openCount}/${summary.totalCount}`}</>}
+      </span>
+      <span className={latencyColor}>
+        {compact ? '' : 'Delay: '}{summary.latencyMs !== null ? `${Math.round(summary.latencyMs)}ms` : '--'}
+      </span>
+    </span>
+  );
+};
@@ -0,0 +1,74 @@
+import React from 'react';
+import { ShieldAlert } from 'lucide-react';
+import { useWallEvents } from '../hooks/useWallEvents';
+import { useSymbolInfo } from '../hooks/useSymbolInfo';
+import { formatPrice, formatQuantity } from '../services/symbolRegistry';
+import { ExchangeId, SymbolInfo, WallEventType } from '../types';
+
+interface WallEventLogProps {
+  symbol: string;
+  exchange: ExchangeId;
+}
+
+const EVENT_STYLES: Record<WallEventType, { label: string; className: string }> = {
+  appeared: { label: 'NEW', className: 'text-terminal-text' },
+  resized: { label: 'SIZE', className: 'text-terminal-muted' },
+  absorbed: { label: 'ABSORBED', className: 'text-blue-400' },
+  spoofed: { label: 'SPOOF', className: 'text-terminal-yellow' },
+  pulled: { label: 'PULLED', className: 'text-terminal-muted' },
+  moved: { label: 'MOVED', className: 'text-purple-400' }
+};
+
+const formatK = (num: number, info: SymbolInfo | null) => {
+  if (num >= 1000000) return (num / 1000000).toFixed(2) + 'M';
+  if (num >= 1000) return (num / 1000).toFixed(1) + 'K';
+  return formatQuantity(num, info);
+};
+
+// Lifecycle of the walls in one symbol's book, newest first
+export const WallEventLog: React.FC<WallEventLogProps> = ({ symbol, exchange }) => {
+  const events = useWallEvents(symbol, exchange);
+  const symbolInfo = useSymbolInfo(symbol, exchange);
+
+  return (
+    <div className="flex flex-col h-full">
+      <div className="p-2 border-b border-terminal-border bg-terminal-panel/50">
+        <h3 className="text-[10px] uppercase font-bold text-terminal-muted flex items-center gap-1">
+          <ShieldAlert size={10} /> Wall Events
+        </h3>
+      </div>
+      <div className="flex-1 overflow-y-auto custom-scrollbar">
+        {events.length === 0 ? (
+          <div className="p-4 text-center text-[10px] text-terminal-muted italic">
+            Watching for walls...
+          </div>
+        ) : (
+          events.map(event => {
+            const style = EVENT_STYLES[event.type];
+            return (
+              <div key={event.id} className="px-2 py-1 border-b border-terminal-border/30 text-[10px] font-mono">
+                <div className="flex items-center justify-between">
+                  <span className={`font-bold ${style.className}`}>{style.label}</span>
+                  <span className="text-terminal-muted">
+                    {new Date(event.time).toLocaleTimeString([], { hour12: false, hour: '2-digit', minute: '2-digit', second: '2-digit' })}
+                  </span>
+                </div>
+                <div className="flex items-center justify-between">
+                  <span className={event.wall.side === 'bid' ? 'text-terminal-green' : 'text-terminal-red'}>
+                    {event.wall.side === 'bid' ? 'BID' : 'ASK'} {event.previousPrice !== undefined && <>{formatPrice(event.previousPrice, symbolInfo)} → </>}{formatPrice(event.wall.price, symbolInfo)}
+                  </span>
+                  <span className="text-terminal-text">{formatK(event.type === 'appeared' ? event.wall.initialSize : event.wall.peakSize, symbolInfo)}</span>
+                </div>
+                {(event.type === 'absorbed' || event.type === 'spoofed' || event.type === 'pulled') && (
+                  <div className="text-terminal-muted">
+                    filled {formatK(event.wall.filledVolume, symbolInfo)} · {(event.distance * 100).toFixed(2)}% from touch · {((event.time - event.wall.appearedAt) / 1000).toFixed(0)}s
+                  </div>
+                )}
+              </div>
+            );
+          })
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,319 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { ArrowDown, ArrowUp, Check, GripVertical, List, Pencil, Plus, Trash2, X } from 'lucide-react';
+import { DEFAULT_EXCHANGE } from '../services/exchanges';
+import { ExchangeId, FundingInfo, MarketTicker } from '../types';
+import { Watchlists } from '../services/watchlist';
+import { formatPrice, SymbolRegistry } from '../services/symbolRegistry';
+import { useWatchlists } from '../hooks/useWatchlist';
+import { useSymbols } from '../hooks/useSymbolInfo';
+import { useMarketTickers } from '../hooks/useMarketTickers';
+import { ExchangeSelect } from './ExchangeSelect';
+
+interface WatchlistPanelProps {
+  selectedSymbol: string;
+  onSelectSymbol: (symbol: string) => void;
+}
+
+type SortKey = 'manual' | 'symbol' | 'price' | 'change' | 'funding' | 'volume';
+
+const COLUMNS: { key: Exclude<SortKey, 'manual'>; label: string; align: string }[] = [
+  { key: 'symbol', label: 'Symbol', align: 'text-left' },
+  { key: 'price', label: 'Last', align: 'text-right' },
+  { key: 'change', label: '24h', align: 'text-right' },
+  { key: 'funding', label: 'Funding', align: 'text-right' },
+  { key: 'volume', label: 'Vol', align: 'text-right' }
+];
+
+interface Quote {
+  ticker?: MarketTicker;
+  funding?: FundingInfo;
+  tick?: 'up' | 'down'; // Last price move since the previous render
+}
+
+const formatVolume = (val: number) => {
+  if (val >= 1e9) return '$' + (val / 1e9).toFixed(2) + 'B';
+  if (val >= 1e6) return '$' + (val / 1e6).toFixed(1) + 'M';
+  return '$' + (val / 1e3).toFixed(0) + 'K';
+};
+
+const getSortValue = (symbol: string, quote: Quote | undefined, key: SortKey): number | string | null => {
+  switch (key) {
+    case 'symbol': return symbol;
+    case 'price': return quote?.ticker?.lastPrice ?? null;
+    case 'change': return quote?.ticker?.priceChangePercent ?? null;
+    case 'funding': return quote?.funding?.fundingRate ?? null;
+    case 'volume': return quote?.ticker?.quoteVolume ?? null;
+    default: return null;
+  }
+};
+
+// Named symbol lists with live mini-tickers; picking a row switches every panel to it
+export const WatchlistPanel: React.FC<WatchlistPanelProps> = ({ selectedSymbol, onSelectSymbol }) => {
+  const { lists, activeId } = useWatchlists();
+  const list = lists.find(l => l.id === activeId) ?? lists[0];
+  const [exchange, setExchange] = useState<ExchangeId>(DEFAULT_EXCHANGE);
+  const symbolInfos = useSymbols(exchange);
+  const { tickers, funding, isStreaming } = useMarketTickers(exchange);
+  const [quotes, setQuotes] = useState<Map<string, Quote>>(new Map());
+  const [sortKey, setSortKey] = useState<SortKey>('manual');
+  const [isDescending, setIsDescending] = useState(true);
+  // Keyboard cursor; starts on the selected symbol
+  const [cursor, setCursor] = useState<string | null>(null);
+  const [newSymbol, setNewSymbol] = useState('');
+  const [addError, setAddError] = useState<string | null>(null);
+  // Name being typed for a new list, or for renaming the active one
+  const [nameDraft, setNameDraft] = useState<{ mode: 'create' | 'rename'; value: string } | null>(null);
+
+  const draggedSymbolRef = useRef<string | null>(null);
+  const tableRef = useRef<HTMLDivElement>(null);
+
+  // Price ticks compare each snapshot with the previous one
+  useEffect(() => {
+    setQuotes(prev => {
+      const next = new Map<string, Quote>();
+      tickers.forEach((ticker, symbol) => {
+        const previous = prev.get(symbol);
+        const lastPrice = previous?.ticker?.lastPrice;
+        const tick = lastPrice === undefined || lastPrice === ticker.lastPrice
+          ? previous?.tick
+          : ticker.lastPrice > lastPrice ? 'up' : 'down';
+        next.set(symbol, { ticker, funding: funding.get(symbol), tick });
+      });
+      return next;
+    });
+  }, [tickers, funding]);
+
+  const rows = sortKey === 'manual' ? list.symbols : [...list.symbols].sort((a, b) => {
+    const valueA = getSortValue(a, quotes.get(a), sortKey);
+    const valueB = getSortValue(b, quotes.get(b), sortKey);
+    // Symbols without data sink to the bottom either way
+    if (valueA === null || valueB === null) return valueA === null ? (valueB === null ? 0 : 1) : -1;
+    const order = typeof valueA === 'string' ? valueA.localeCompare(valueB as string) : valueA - (valueB as number);
+    return isDescending ? -order : order;
+  });
+
+  const activeCursor = cursor && rows.includes(cursor) ? cursor : rows.includes(selectedSymbol) ? selectedSymbol : null;
+
+  // Keep the keyboard cursor in view
+  useEffect(() => {
+    if (!activeCursor) return;
+    tableRef.current?.querySelector(`[data-symbol="${activeCursor}"]`)?.scrollIntoView({ block: 'nearest' });
+  }, [activeCursor]);
+
+  const toggleSort = (key: SortKey) => {
+    if (key === sortKey) {
+      setIsDescending(!isDescending);
+    } else {
+      setSortKey(key);
+      setIsDescending(key !== 'symbol');
+    }
+  };
+
+  const select = (symbol: string) => {
+    setCursor(symbol);
+    onSelectSymbol(symbol);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (rows.length === 0) return;
+    const index = activeCursor ? rows.indexOf(activeCursor) : -1;
+    if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+      e.preventDefault();
+      const step = e.key === 'ArrowDown' ? 1 : -1;
+      // Alt+arrows reorder the list itself
+      if (e.altKey && activeCursor && sortKey === 'manual') {
+        Watchlists.moveSymbol(list.id, activeCursor, index + step);
+        return;
+      }
+      setCursor(rows[Math.max(0, Math.min(rows.length - 1, index + step))]);
+    } else if (e.key === 'Enter' && activeCursor) {
+      onSelectSymbol(activeCursor);
+    } else if ((e.key === 'Delete' || e.key === 'Backspace') && activeCursor) {
+      e.preventDefault();
+      setCursor(rows[index + 1] ?? rows[index - 1] ?? null);
+      Watchlists.removeSymbol(list.id, activeCursor);
+    }
+  };
+
+  const handleDrop = (target: string) => {
+    const dragged = draggedSymbolRef.current;
+    draggedSymbolRef.current = null;
+    if (!dragged || dragged === target) return;
+    Watchlists.moveSymbol(list.id, dragged, list.symbols.indexOf(target));
+  };
+
+  const addSymbol = async () => {
+    const candidate = newSymbol.trim().toUpperCase();
+    if (!candidate) return;
+    const error = await SymbolRegistry.validate(exchange, candidate);
+    if (error) {
+      setAddError(error);
+      return;
+    }
+    Watchlists.addSymbol(list.id, candidate);
+    setNewSymbol('');
+  };
+
+  const saveName = () => {
+    if (!nameDraft) return;
+    const name = nameDraft.value.trim();
+    if (name) {
+      if (nameDraft.mode === 'create') Watchlists.create(name);
+      else Watchlists.rename(list.id, name);
+    }
+    setNameDraft(null);
+  };
+
+  const inputClass = 'bg-terminal-bg border border-terminal-border rounded px-1.5 py-0.5 text-[10px] font-mono text-terminal-text outline-none';
+
+  return (
+    <div className="bg-terminal-panel border border-terminal-border rounded-lg flex flex-col h-full overflow-hidden">
+      <div className="px-4 py-3 border-b border-terminal-border flex items-center justify-between gap-2 shrink-0">
+        <h2 className="font-bold text-sm uppercase tracking-wider flex items-center gap-2 shrink-0">
+          <List size={16} className="text-terminal-yellow" />
+          Watchlist
+        </h2>
+        <div className="flex items-center gap-1 min-w-0">
+          {nameDraft ? (
+            <>
+              <input
+                autoFocus
+                value={nameDraft.value}
+                onChange={(e) => setNameDraft({ ...nameDraft, value: e.target.value })}
+                onKeyDown={(e) => {
+                  if (e.key === 'Enter') saveName();
+                  if (e.key === 'Escape') setNameDraft(null);
+                }}
+                placeholder="List name"
+                className={`${inputClass} w-28`}
+              />
+              <button onClick={saveName} title="Save" className="p-1 text-terminal-muted hover:text-white"><Check size={12} /></button>
+              <button onClick={() => setNameDraft(null)} title="Cancel" className="p-1 text-terminal-muted hover:text-white"><X size={12} /></button>
+            </>
+          ) : (
+            <>
+              <select
+                value={list.id}
+                onChange={(e) => { Watchlists.setActive(e.target.value); setCursor(null); }}
+                title="Watchlist"
+                className={`${inputClass} max-w-[8rem]`}
+              >
+                {lists.map(l => <option key={l.id} value={l.id}>{l.name}</option>)}
+              </select>
+              <button onClick={() => setNameDraft({ mode: 'create', value: '' })} title="New list" className="p-1 text-terminal-muted hover:text-white"><Plus size={12} /></button>
+              <button onClick={() => setNameDraft({ mode: 'rename', value: list.name })} title="Rename list" className="p-1 text-terminal-muted hover:text-white"><Pencil size={12} /></button>
+              <button
+                onClick={() => Watchlists.remove(list.id)}
+                disabled={lists.length <= 1}
+                title="Delete list"
+                className="p-1 text-terminal-muted hover:text-terminal-red disabled:opacity-30"
+              >
+                <Trash2 size={12} />
+              </button>
+            </>
+          )}
+          <ExchangeSelect value={exchange} onChange={setExchange} />
+        </div>
+      </div>
+
+      <div
+        ref={tableRef}
+        tabIndex={0}
+        onKeyDown={handleKeyDown}
+        title="↑/↓ move · Enter open · Alt+↑/↓ reorder · Del remove"
+        className="flex-1 overflow-y-auto outline-none focus:ring-1 focus:ring-inset focus:ring-terminal-border"
+      >
+        <table className="w-full border-collapse">
+          <thead className="sticky top-0 bg-terminal-panel z-10 text-[10px] text-terminal-muted uppercase font-mono border-b border-terminal-border">
+            <tr>
+              {COLUMNS.map(c => (
+                <th key={c.key} className={`px-2 py-2 ${c.align}`}>
+                  <button onClick={() => toggleSort(c.key)} className={`uppercase hover:text-white ${sortKey === c.key ? 'text-terminal-text' : ''}`}>
+                    {c.label}
+                    {sortKey === c.key && (isDescending ? <ArrowDown size={10} className="inline ml-0.5" /> : <ArrowUp size={10} className="inline ml-0.5" />)}
+                  </button>
+                </th>
+              ))}
+              <th className="px-2 py-2 w-6">
+                {sortKey !== 'manual' && (
+                  <button onClick={() => setSortKey('manual')} title="Back to your own order" className="hover:text-white">
+                    <GripVertical size={10} />
+                  </button>
+                )}
+              </th>
+            </tr>
+          </thead>
+          <tbody className="font-mono text-xs">
+            {rows.length === 0 ? (
+              <tr><td colSpan={6} className="text-center py-6 text-terminal-muted italic">No symbols in this list yet.</td></tr>
+            ) : (
+              rows.map(symbol => {
+                const quote = quotes.get(symbol);
+                const ticker = quote?.ticker;
+                const funding = quote?.funding;
+                return (
+                  <tr
+                    key={symbol}
+                    data-symbol={symbol}
+                    draggable={sortKey === 'manual'}
+                    onDragStart={() => { draggedSymbolRef.current = symbol; }}
+                    onDragOver={(e) => { if (draggedSymbolRef.current) e.preventDefault(); }}
+                    onDrop={() => handleDrop(symbol)}
+                    onClick={() => select(symbol)}
+                    className={`border-b border-terminal-border/50 cursor-pointer transition-colors group ${
+                      symbol === selectedSymbol ? 'bg-terminal-yellow/10' : symbol === activeCursor ? 'bg-terminal-border/50' : 'hover:bg-terminal-border/30'
+                    }`}
+                  >
+                    <td className={`px-2 py-1.5 font-bold ${symbol === selectedSymbol ? 'text-terminal-yellow' : 'text-terminal-text'}`}>
+                      {symbol === activeCursor && <span className="text-terminal-muted">› </span>}
+                      {symbol}
+                    </td>
+                    <td className={`px-2 py-1.5 text-right ${quote?.tick === 'up' ? 'text-terminal-green' : quote?.tick === 'down' ? 'text-terminal-red' : 'text-terminal-text'}`}>
+                      {ticker ? formatPrice(ticker.lastPrice, symbolInfos?.get(symbol)) : '--'}
+                    </td>
+                    <td className={`px-2 py-1.5 text-right ${!ticker ? 'text-terminal-muted' : ticker.priceChangePercent >= 0 ? 'text-terminal-green' : 'text-terminal-red'}`}>
+                      {ticker ? `${ticker.priceChangePercent >= 0 ? '+' : ''}${ticker.priceChangePercent.toFixed(2)}%` : '--'}
+                    </td>
+                    <td className={`px-2 py-1.5 text-right ${!funding ? 'text-terminal-muted' : funding.fundingRate < 0 ? 'text-terminal-red' : 'text-terminal-green'}`}>
+                      {funding ? `${(funding.fundingRate * 100).toFixed(4)}%` : '--'}
+                    </td>
+                    <td className="px-2 py-1.5 text-right text-terminal-muted">
+                      {ticker ? formatVolume(ticker.quoteVolume) : '--'}
+                    </td>
+                    <td className="px-2 py-1.5 text-right">
+                      <button
+                        onClick={(e) => { e.stopPropagation(); Watchlists.removeSymbol(list.id, symbol); }}
+                        title="Remove"
+                        className="text-terminal-muted opacity-0 group-hover:opacity-100 hover:text-terminal-red"
+                      >
+                        <X size={12} />
+                      </button>
+                    </td>
+                  </tr>
+                );
+              })
+            )}
+          </tbody>
+        </table>
+      </div>
+
+      <div className="p-2 border-t border-terminal-border flex items-center gap-2 text-[10px] font-mono shrink-0">
+        <input
+          value={newSymbol}
+          onChange={(e) => { setNewSymbol(e.target.value.toUpperCase()); setAddError(null); }}
+          onKeyDown={(e) => { if (e.key === 'Enter') addSymbol(); }}
+          placeholder="Add symbol"
+          className={`${inputClass} w-24 uppercase`}
+        />
+        <button onClick={addSymbol} title="Add to list" className="p-0.5 text-terminal-muted hover:text-white"><Plus size={12} /></button>
+        {addError ? (
+          <span className="text-terminal-red truncate">{addError}</span>
+        ) : (
+          <span className={`ml-auto ${isStreaming ? 'text-terminal-green' : 'text-terminal-muted'}`}>
+            {isStreaming ? '● Live' : '○ REST polling (60s)'}
+          </span>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -1,34 +1,192 @@
 import React, { useEffect, useState, useRef } from 'react';
-import { BinanceService } from '../services/binanceService';
-import { AggTrade, Kline } from '../types';
+import { getExchange, DEFAULT_EXCHANGE } from '../services/exchanges';
+import { MarketTrade, ExchangeId, Kline, TradeCluster, WhaleThresholds } from '../types';
 import { ArrowUpRight, ArrowDownRight, Filter, Pause, Play, Activity } from 'lucide-react';
-import { createChart, ColorType, IChartApi, ISeriesApi } from 'lightweight-charts';
+import { createChart, ColorType, IChartApi, ISeriesApi, LogicalRange, SeriesMarker, Time } from 'lightweight-charts';
+import { StreamHealthBadge } from './StreamHealthBadge';
+import { ExchangeSelect } from './ExchangeSelect';
+import { formatPrice, getStepDecimals } from '../services/symbolRegistry';
+import { useSymbolInfo } from '../hooks/useSymbolInfo';
+import { createCvdTracker } from '../services/cvd';
+import { createTradeClusterer } from '../services/tradeClusters';
+import { createTradeSizeStats, getAdaptiveThresholds } from '../services/whaleThresholds';
+import { calculateBollinger, calculateEma, calculateSessionVwap, IndicatorPoint } from '../services/indicators';
+import { useUrlParam } from '../hooks/useUrlParam';
 
 interface WhaleWatchProps {
   symbol: string;
+  syncUrl?: boolean; // Keep threshold and interval in the URL; only for the single full-page view
 }
 
-interface ProcessedTrade extends AggTrade {
+// Liquidations summed per candle; a candle at or above this gets a chart marker
+const LIQ_CLUSTER_THRESHOLD = 100000;
+
+// Chart intervals and their candle length
+const INTERVALS: { value: string; label: string; seconds: number }[] = [
+  { value: '1m', label: '1m', seconds: 60 },
+  { value: '5m', label: '5m', seconds: 300 },
+  { value: '15m', label: '15m', seconds: 900 },
+  { value: '1h', label: '1H', seconds: 3600 },
+  { value: '4h', label: '4H', seconds: 14400 },
+  { value: '1d', label: '1D', seconds: 86400 }
+];
+
+const INTERVAL_PARAMS = INTERVALS.map(i => i.value);
+
+const INITIAL_CANDLES = 200;
+// Older klines are paged in this many at a time once the view is within SCROLL_BACK_MARGIN bars of the oldest
+const OLDER_CANDLES_PAGE = 500;
+const SCROLL_BACK_MARGIN = 20;
+
+// Live data is folded into the CVD pane and indicators at most this often (ms)
+const OVERLAY_RENDER_INTERVAL = 1000;
+
+const EMA_PERIODS = [20, 50];
+const EMA_COLORS = ['#F0B90B', '#EC4899'];
+const BOLLINGER_PERIOD = 20;
+const BOLLINGER_DEVIATIONS = 2;
+
+interface IndicatorVisibility {
+  vwap: boolean;
+  ema: boolean;
+  bollinger: boolean;
+}
+
+const INDICATOR_LABELS: { key: keyof IndicatorVisibility; label: string }[] = [
+  { key: 'vwap', label: 'VWAP' },
+  { key: 'ema', label: `EMA ${EMA_PERIODS.join('/')}` },
+  { key: 'bollinger', label: `BB ${BOLLINGER_PERIOD}` }
+];
+
+const toLineData = (points: IndicatorPoint[]) => points.map(p => ({ time: p.time as Time, value: p.value }));
+
+const toCandle = (kline: Kline) => ({ ...kline, time: kline.time as Time });
+
+// Taker buys minus taker sells over a whole candle; null where the venue leaves taker volume out
+const getKlineDelta = (kline: Kline) =>
+  kline.takerBuyVolume === undefined ? null : 2 * kline.takerBuyVolume - kline.volume;
+
+const toVolumeBar = (kline: Kline) => ({
+  time: kline.time as Time,
+  value: kline.volume,
+  color: kline.close >= kline.open ? 'rgba(14, 203, 129, 0.35)' : 'rgba(246, 70, 93, 0.35)'
+});
+
+// Shared by both panes so their plot areas, and therefore their bars, line up
+const PRICE_SCALE_WIDTH = 64;
+
+type CvdMode = 'all' | 'whale';
+
+// Whale markers grow with notional: size 1 at the threshold, up to this at 100x
+const MAX_WHALE_MARKER_SIZE = 3;
+
+const WHALE_MARKER_PREFIX = 'whale:';
+
+// Quiet sweeps are closed this often (ms)
+const CLUSTER_FLUSH_INTERVAL = 250;
+
+const MAX_FEED_ROWS = 50;
+
+// Fixed whale thresholds to pick from (USDT)
+const THRESHOLD_OPTIONS = [
+  { value: '50000', label: '$50k (Degen)' },
+  { value: '100000', label: '$100k (Standard)' },
+  { value: '500000', label: '$500k (Large)' },
+  { value: '1000000', label: '$1M (Whale)' }
+];
+const THRESHOLD_PARAMS = ['auto', ...THRESHOLD_OPTIONS.map(o => o.value)];
+// Used in adaptive mode until the symbol has enough data
+const DEFAULT_THRESHOLD = 100000;
+
+// Manual mode flags prints from this notional up as nuclear (USDT)
+const NUCLEAR_THRESHOLD = 1000000;
+
+// Adaptive thresholds are recomputed this often, and 24h volume refetched this often (ms)
+const ADAPTIVE_UPDATE_INTERVAL = 5000;
+const VOLUME_REFRESH_INTERVAL = 5 * 60 * 1000;
+
+interface LiquidationBucket {
+  long: number;
+  short: number;
+}
+
+interface ProcessedTrade extends MarketTrade {
   value: number;
   isWhale: boolean;
   isNuclear: boolean;
+  cluster?: TradeCluster; // Set for sweep and iceberg rows
 }
 
-export const WhaleWatch: React.FC<WhaleWatchProps> = ({ symbol }) => {
+// Clusters are listed as one print at their average price
+const toClusterRow = (cluster: TradeCluster, nuclearThreshold: number): ProcessedTrade => ({
+  id: cluster.id,
+  symbol: cluster.symbol,
+  price: cluster.averagePrice,
+  quantity: cluster.quantity,
+  time: cluster.endTime,
+  side: cluster.side,
+  value: cluster.notional,
+  isWhale: true,
+  isNuclear: cluster.notional >= nuclearThreshold,
+  cluster
+});
+
+const formatCompact = (val: number) => {
+  if (val >= 1000000) return '$' + (val / 1000000).toFixed(1) + 'M';
+  return '$' + (val / 1000).toFixed(0) + 'K';
+};
+
+export const WhaleWatch: React.FC<WhaleWatchProps> = ({ symbol, syncUrl = false }) => {
   const [trades, setTrades] = useState<ProcessedTrade[]>([]);
-  const [threshold, setThreshold] = useState<number>(100000); // $100k default
+  // 'auto' or a fixed threshold, kept in the URL
+  const [thresholdParam, setThresholdParam] = useUrlParam('threshold', 'auto', { allowed: THRESHOLD_PARAMS, replace: true, syncUrl });
+  // Adaptive mode derives both thresholds from the symbol itself; the manual threshold applies until it has data
+  const isAdaptive = thresholdParam === 'auto';
+  const threshold = isAdaptive ? DEFAULT_THRESHOLD : Number(thresholdParam);
+  const [adaptiveThresholds, setAdaptiveThresholds] = useState<WhaleThresholds | null>(null);
+  const effective: WhaleThresholds = isAdaptive && adaptiveThresholds
+    ? adaptiveThresholds
+    : { whale: threshold, nuclear: NUCLEAR_THRESHOLD };
   const [isPaused, setIsPaused] = useState(false);
+  const [exchange, setExchange] = useState<ExchangeId>(DEFAULT_EXCHANGE);
+  const symbolInfo = useSymbolInfo(symbol, exchange);
   const scrollRef = useRef<HTMLDivElement>(null);
   const tradesRef = useRef<ProcessedTrade[]>([]); // Ref to hold trades for calculating without dependency issues
+  // Filter settings read from refs so changing them does not resubscribe the trade stream
+  const thresholdRef = useRef(effective.whale);
+  const nuclearThresholdRef = useRef(effective.nuclear);
+  const isPausedRef = useRef(isPaused);
+  thresholdRef.current = effective.whale;
+  nuclearThresholdRef.current = effective.nuclear;
+  isPausedRef.current = isPaused;
+  const [cvdMode, setCvdMode] = useState<CvdMode>('all');
+  const cvdModeRef = useRef(cvdMode);
+  cvdModeRef.current = cvdMode;
+  const renderCvdRef = useRef<(() => void) | null>(null);
+  const loadOlderTradesRef = useRef<(() => void) | null>(null);
+  // Tape row and chart marker of the trade picked in either place
+  const [selectedTradeId, setSelectedTradeId] = useState<string | null>(null);
+  const selectedTradeIdRef = useRef(selectedTradeId);
+  selectedTradeIdRef.current = selectedTradeId;
+  const liquidationMarkersRef = useRef<SeriesMarker<Time>[]>([]);
+  const [chartInterval, setChartInterval] = useUrlParam('interval', '1m', { allowed: INTERVAL_PARAMS, replace: true, syncUrl });
+  const intervalSeconds = INTERVALS.find(i => i.value === chartInterval)?.seconds ?? 60;
+  const intervalSecondsRef = useRef(intervalSeconds);
+  intervalSecondsRef.current = intervalSeconds;
+  const [indicators, setIndicators] = useState<IndicatorVisibility>({ vwap: true, ema: false, bollinger: false });
+  const indicatorsRef = useRef(indicators);
+  indicatorsRef.current = indicators;
+  const renderIndicatorsRef = useRef<(() => void) | null>(null);
 
   // Chart Refs
   const chartContainerRef = useRef<HTMLDivElement>(null);
   const chartRef = useRef<IChartApi | null>(null);
   const candlestickSeriesRef = useRef<ISeriesApi<"Candlestick"> | null>(null);
+  const cvdContainerRef = useRef<HTMLDivElement>(null);
 
   // Initialize Chart and Subscribe to Klines
   useEffect(() => {
-    if (!chartContainerRef.current) return;
+    if (!chartContainerRef.current || !cvdContainerRef.current) return;
 
     // Create chart
     const chart = createChart(chartContainerRef.current, {
@@ -49,12 +207,54 @@ export const WhaleWatch: React.FC<WhaleWatchProps> = ({ symbol }) => {
       },
       rightPriceScale: {
         borderColor: '#2B3139',
+        minimumWidth: PRICE_SCALE_WIDTH,
       },
       crosshair: {
         mode: 1 // CrosshairMode.Normal
       }
     });
 
+    // Cumulative volume delta pane, kept on the same bars as the candles
+    const cvdChart = createChart(cvdContainerRef.current, {
+      layout: {
+        background: { type: ColorType.Solid, color: '#151A21' },
+        textColor: '#848E9C',
+      },
+      grid: {
+        vertLines: { color: '#2B3139', style: 0, visible: false },
+        horzLines: { color: '#2B3139', style: 0 },
+      },
+      width: cvdContainerRef.current.clientWidth,
+      height: 100,
+      timeScale: {
+        visible: false,
+      },
+      rightPriceScale: {
+        borderColor: '#2B3139',
+        minimumWidth: PRICE_SCALE_WIDTH,
+      },
+      crosshair: {
+        mode: 1
+      }
+    });
+    const cvdSeries = cvdChart.addLineSeries({
+      color: '#F0B90B',
+      lineWidth: 1,
+      priceFormat: { type: 'volume' },
+      lastValueVisible: true,
+      priceLineVisible: false,
+    });
+
+    let isSyncing = false;
+    const syncRange = (target: IChartApi) => (range: LogicalRange | null) => {
+      if (!range || isSyncing) return;
+      isSyncing = true;
+      target.timeScale().setVisibleLogicalRange(range);
+      isSyncing = false;
+    };
+    chart.timeScale().subscribeVisibleLogicalRangeChange(syncRange(cvdChart));
+    cvdChart.timeScale().subscribeVisibleLogicalRangeChange(syncRange(chart));
+
     const candlestickSeries = chart.addCandlestickSeries({
       upColor: '#0ECB81',
       downColor: '#F6465D',
@@ -63,55 +263,368 @@ export const WhaleWatch: React.FC<WhaleWatchProps> = ({ symbol }) => {
       wickDownColor: '#F6465D',
     });
 
+    // Volume along the bottom fifth of the price pane
+    const volumeSeries = chart.addHistogramSeries({
+      priceFormat: { type: 'volume' },
+      priceScaleId: 'volume',
+      lastValueVisible: false,
+      priceLineVisible: false,
+    });
+    chart.priceScale('volume').applyOptions({ scaleMargins: { top: 0.8, bottom: 0 } });
+
+    const lineOptions = { lineWidth: 1 as const, priceLineVisible: false, lastValueVisible: false, crosshairMarkerVisible: false };
+    const vwapSeries = chart.addLineSeries({ ...lineOptions, color: '#A78BFA' });
+    const emaSeries = EMA_PERIODS.map((period, i) => chart.addLineSeries({ ...lineOptions, color: EMA_COLORS[i] }));
+    const bollingerSeries = [0, 1, 2].map(i => chart.addLineSeries({ ...lineOptions, color: '#3B82F6', lineStyle: i === 1 ? 2 : 0 })); // Upper, middle (dashed), lower
+
     candlestickSeriesRef.current = candlestickSeries;
     chartRef.current = chart;
 
-    // Handle Resize
+    // Follow the container, which also changes size when a workspace panel is resized
     const handleResize = () => {
       if (chartContainerRef.current) {
         chart.applyOptions({ width: chartContainerRef.current.clientWidth });
       }
+      if (cvdContainerRef.current) {
+        cvdChart.applyOptions({ width: cvdContainerRef.current.clientWidth });
+      }
     };
-    window.addEventListener('resize', handleResize);
+    const resizeObserver = new ResizeObserver(handleResize);
+    resizeObserver.observe(chartContainerRef.current);
 
-    // Initial Data
-    BinanceService.getKlines(symbol, '1m', 200).then(data => {
-      if(candlestickSeriesRef.current) {
-        candlestickSeriesRef.current.setData(data);
-        // chart.timeScale().fitContent();
+    let klines: Kline[] = []; // Oldest first, grows backwards as the chart is scrolled
+    let isLoadingOlder = false;
+    let hasOlder = true;
+    let isOverlayDirty = false;
+    let isCancelled = false;
+
+    // Every trade feeds the CVD, whatever the tape's threshold or pause state
+    const cvd = createCvdTracker(intervalSeconds);
+    let firstLiveTradeTime: number | null = null;
+    let backfilledUntil = 0; // Live trades up to here were already counted by the backfill
+    let tradesCountedFrom: number | null = null; // Every trade from here on is in the CVD (ms)
+    let isLoadingTrades = false;
+    let hasOlderTrades = true;
+
+    const renderCvd = () => {
+      const candleTimes = klines.map(k => k.time);
+      const values = cvd.getSeries(candleTimes, cvdModeRef.current === 'whale' ? thresholdRef.current : null);
+      // Whitespace where there is no CVD yet keeps both panes on the same bar indices
+      cvdSeries.setData(candleTimes.map((time, i) => {
+        const value = values[i];
+        return value === null ? { time: time as Time } : { time: time as Time, value };
+      }));
+    };
+    renderCvdRef.current = renderCvd;
+
+    // Hidden indicators are not computed at all
+    const renderIndicators = () => {
+      const visible = indicatorsRef.current;
+      vwapSeries.applyOptions({ visible: visible.vwap });
+      emaSeries.forEach(series => series.applyOptions({ visible: visible.ema }));
+      bollingerSeries.forEach(series => series.applyOptions({ visible: visible.bollinger }));
+
+      if (visible.vwap) vwapSeries.setData(toLineData(calculateSessionVwap(klines)));
+      if (visible.ema) emaSeries.forEach((series, i) => series.setData(toLineData(calculateEma(klines, EMA_PERIODS[i]))));
+      if (visible.bollinger) {
+        const bands = calculateBollinger(klines, BOLLINGER_PERIOD, BOLLINGER_DEVIATIONS);
+        bollingerSeries[0].setData(bands.map(b => ({ time: b.time as Time, value: b.upper })));
+        bollingerSeries[1].setData(bands.map(b => ({ time: b.time as Time, value: b.middle })));
+        bollingerSeries[2].setData(bands.map(b => ({ time: b.time as Time, value: b.lower })));
       }
+    };
+    renderIndicatorsRef.current = renderIndicators;
+
+    const renderOverlays = () => {
+      isOverlayDirty = false;
+      renderCvd();
+      renderIndicators();
+    };
+
+    const renderAll = () => {
+      candlestickSeries.setData(klines.map(toCandle));
+      volumeSeries.setData(klines.map(toVolumeBar));
+      renderOverlays();
+    };
+
+    // Initial Data
+    const adapter = getExchange(exchange);
+    const loadHistory = () => {
+      hasOlder = true;
+      adapter.getKlines(symbol, chartInterval, INITIAL_CANDLES).then(data => {
+        if (isCancelled) return;
+        klines = data;
+        // Closed candles take their CVD from the klines themselves
+        data.slice(0, -1).forEach(k => {
+          const delta = getKlineDelta(k);
+          if (delta !== null) cvd.setCandleDelta(k.time, delta);
+        });
+        renderAll();
+        if (data.length === 0) return;
+
+        // Trades fill in the candle still forming, or the whole history where klines carry no taker volume.
+        // Live trades already cover what came after the backfill starts.
+        const backfillFrom = getKlineDelta(data[0]) !== null ? data[data.length - 1].time : data[0].time;
+        adapter.getTradesSince(symbol, backfillFrom * 1000).then(trades => {
+          if (isCancelled) return;
+          tradesCountedFrom = firstLiveTradeTime;
+          trades.forEach(trade => {
+            if (firstLiveTradeTime !== null && trade.time >= firstLiveTradeTime) return;
+            cvd.addTrade(trade);
+            backfilledUntil = Math.max(backfilledUntil, trade.time);
+            tradesCountedFrom = Math.min(tradesCountedFrom ?? trade.time, trade.time);
+          });
+          renderCvd();
+          loadOlderTrades();
+        });
+      });
+    };
+
+    // Whale-only CVD has no kline taker volume to fall back on, so in that mode trades are paged in
+    // back towards the oldest candle, a capped batch at a time (on mode switch and scroll-back)
+    const loadOlderTrades = () => {
+      if (cvdModeRef.current !== 'whale' || isLoadingTrades || !hasOlderTrades || tradesCountedFrom === null || klines.length === 0) return;
+      const from = klines[0].time * 1000;
+      const until = tradesCountedFrom;
+      if (until <= from) return;
+      isLoadingTrades = true;
+      adapter.getTradesSince(symbol, from, until).then(trades => {
+        isLoadingTrades = false;
+        if (isCancelled || tradesCountedFrom !== until) return;
+        if (trades.length === 0) {
+          hasOlderTrades = false;
+          return;
+        }
+        trades.forEach(trade => cvd.addTrade(trade));
+        tradesCountedFrom = trades[0].time;
+        renderCvd();
+      });
+    };
+    loadOlderTradesRef.current = loadOlderTrades;
+    loadHistory();
+
+    // Scrolling near the oldest candle pages in the klines before it
+    const loadOlder = () => {
+      if (isLoadingOlder || !hasOlder || klines.length === 0) return;
+      isLoadingOlder = true;
+      const oldest = klines[0].time;
+      adapter.getKlines(symbol, chartInterval, OLDER_CANDLES_PAGE, oldest * 1000 - 1).then(data => {
+        isLoadingOlder = false;
+        if (isCancelled || klines.length === 0 || klines[0].time !== oldest) return;
+        const older = data.filter(k => k.time < oldest);
+        if (older.length === 0) {
+          hasOlder = false;
+          return;
+        }
+        older.forEach(k => {
+          const delta = getKlineDelta(k);
+          if (delta !== null) cvd.setCandleDelta(k.time, delta);
+        });
+        // setData re-indexes the bars; shift the view by as many so it stays put
+        const range = chart.timeScale().getVisibleLogicalRange();
+        klines = [...older, ...klines];
+        renderAll();
+        if (range) chart.timeScale().setVisibleLogicalRange({ from: range.from + older.length, to: range.to + older.length });
+        loadOlderTrades();
+      });
+    };
+    chart.timeScale().subscribeVisibleLogicalRangeChange((range) => {
+      if (range && range.from < SCROLL_BACK_MARGIN) loadOlder();
     });
 
     // Subscribe to Kline Updates
-    const klineWs = BinanceService.subscribeToKlines(symbol, '1m', (kline) => {
-      if (candlestickSeriesRef.current) {
-        candlestickSeriesRef.current.update(kline);
+    const klineWs = adapter.subscribeToKlines(symbol, chartInterval, (kline) => {
+      const last = klines[klines.length - 1];
+      if (last && kline.time < last.time) return;
+      const isNewCandle = !last || kline.time > last.time;
+      if (isNewCandle) klines.push(kline);
+      else klines[klines.length - 1] = kline;
+
+      candlestickSeries.update(toCandle(kline));
+      volumeSeries.update(toVolumeBar(kline));
+      isOverlayDirty = true;
+      if (isNewCandle) renderOverlays();
+    }, () => {
+      // Replay seeks can move backwards in time, which update() refuses
+      klines = [];
+      renderAll();
+      cvd.reset();
+      firstLiveTradeTime = null;
+      backfilledUntil = 0;
+      tradesCountedFrom = null;
+      hasOlderTrades = true;
+      loadHistory();
+    });
+
+    const cvdTradeWs = adapter.subscribeToTrades(symbol, (trade) => {
+      if (trade.time <= backfilledUntil) return;
+      if (firstLiveTradeTime === null) firstLiveTradeTime = trade.time;
+      cvd.addTrade(trade);
+      isOverlayDirty = true;
+    });
+    const overlayInterval = setInterval(() => {
+      if (isOverlayDirty) renderOverlays();
+    }, OVERLAY_RENDER_INTERVAL);
+
+    // Clicking a whale marker selects its tape row
+    chart.subscribeClick((param) => {
+      const id = typeof param.hoveredObjectId === 'string' ? param.hoveredObjectId : '';
+      if (!id.startsWith(WHALE_MARKER_PREFIX)) return;
+      const tradeId = id.slice(WHALE_MARKER_PREFIX.length);
+      setSelectedTradeId(tradeId);
+      scrollRef.current?.querySelector(`[data-trade-id="${tradeId}"]`)?.scrollIntoView({ block: 'nearest' });
+    });
+
+    // Liquidation clusters as markers on the candle they hit
+    const liqBuckets = new Map<number, LiquidationBucket>();
+    liquidationMarkersRef.current = [];
+    const renderLiquidationMarkers = () => {
+      const markers: SeriesMarker<Time>[] = [];
+      Array.from(liqBuckets.entries()).sort((a, b) => a[0] - b[0]).forEach(([time, bucket]) => {
+        if (bucket.long >= LIQ_CLUSTER_THRESHOLD) {
+          markers.push({ time: time as Time, position: 'belowBar', color: '#F6465D', shape: 'circle', text: `L ${formatCompact(bucket.long)}` });
+        }
+        if (bucket.short >= LIQ_CLUSTER_THRESHOLD) {
+          markers.push({ time: time as Time, position: 'aboveBar', color: '#0ECB81', shape: 'circle', text: `S ${formatCompact(bucket.short)}` });
+        }
+      });
+      liquidationMarkersRef.current = markers;
+      applyMarkers();
+    };
+    const liqWs = adapter.subscribeToLiquidations(symbol, (liquidation) => {
+      const time = Math.floor(liquidation.time / 1000 / intervalSeconds) * intervalSeconds;
+      const bucket = liqBuckets.get(time) || { long: 0, short: 0 };
+      const before = Math.max(bucket.long, bucket.short);
+      bucket[liquidation.side] += liquidation.value;
+      liqBuckets.set(time, bucket);
+      // Only redraw when this liquidation creates or grows a visible cluster
+      if (Math.max(bucket.long, bucket.short) >= LIQ_CLUSTER_THRESHOLD || before >= LIQ_CLUSTER_THRESHOLD) {
+        renderLiquidationMarkers();
       }
+    }, () => {
+      liqBuckets.clear();
+      renderLiquidationMarkers();
     });
 
     return () => {
-      window.removeEventListener('resize', handleResize);
+      isCancelled = true;
+      resizeObserver.disconnect();
       klineWs.close();
+      liqWs?.close();
+      cvdTradeWs.close();
+      clearInterval(overlayInterval);
       chart.remove();
+      cvdChart.remove();
       chartRef.current = null;
+      renderCvdRef.current = null;
+      loadOlderTradesRef.current = null;
+      renderIndicatorsRef.current = null;
     };
-  }, [symbol]);
+  }, [symbol, exchange, chartInterval]);
+
+  useEffect(() => {
+    renderIndicatorsRef.current?.();
+  }, [indicators]);
+
+  // Price axis at the symbol's tick precision once its metadata has loaded
+  useEffect(() => {
+    if (!symbolInfo?.tickSize) return;
+    candlestickSeriesRef.current?.applyOptions({
+      priceFormat: { type: 'price', precision: getStepDecimals(symbolInfo.tickSize), minMove: symbolInfo.tickSize }
+    });
+  }, [symbolInfo, symbol, exchange, chartInterval]);
+
+  // Whale prints from the tape, on the candle they traded in
+  const applyMarkers = () => {
+    const series = candlestickSeriesRef.current;
+    if (!series) return;
+    const whaleMarkers: SeriesMarker<Time>[] = tradesRef.current.map(trade => {
+      const isSelected = trade.id === selectedTradeIdRef.current;
+      const size = Math.min(MAX_WHALE_MARKER_SIZE, 1 + Math.log10(Math.max(1, trade.value / thresholdRef.current)));
+      return {
+        id: `${WHALE_MARKER_PREFIX}${trade.id}`,
+        time: (Math.floor(trade.time / 1000 / intervalSecondsRef.current) * intervalSecondsRef.current) as Time,
+        position: trade.side === 'buy' ? 'belowBar' : 'aboveBar',
+        shape: trade.cluster?.kind === 'iceberg' ? 'square' : trade.side === 'buy' ? 'arrowUp' : 'arrowDown',
+        color: isSelected ? '#EAECEF' : trade.isNuclear ? '#F0B90B' : trade.side === 'buy' ? '#0ECB81' : '#F6465D',
+        size: isSelected ? size + 1 : size,
+        // Labels only where they matter, or a busy candle turns into a wall of text
+        text: trade.isNuclear || isSelected ? formatCompact(trade.value) : undefined
+      };
+    });
+    // Markers must be sorted by time
+    series.setMarkers([...liquidationMarkersRef.current, ...whaleMarkers].sort((a, b) => (a.time as number) - (b.time as number)));
+  };
+
+  useEffect(() => {
+    applyMarkers();
+  }, [trades, selectedTradeId]);
+
+  // Whale-only CVD depends on the tape threshold
+  useEffect(() => {
+    renderCvdRef.current?.();
+    loadOlderTradesRef.current?.();
+  }, [cvdMode, effective.whale]);
 
   useEffect(() => {
     setTrades([]);
     tradesRef.current = [];
     
-    const ws = BinanceService.subscribeToTrades(symbol, (data: AggTrade) => {
-      if (isPaused) return;
+    // Icebergs keep their row and update it in place as they refill; a sweep row
+    // replaces the prints it is made of
+    const addRows = (rows: ProcessedTrade[]) => {
+      if (rows.length === 0) return;
+      let next = tradesRef.current;
+      rows.forEach(row => {
+        const memberIds = new Set(row.cluster?.tradeIds);
+        if (memberIds.size > 0) next = next.filter(t => !memberIds.has(t.id));
+        next = next.some(t => t.id === row.id) ? next.map(t => (t.id === row.id ? row : t)) : [row, ...next];
+      });
+      tradesRef.current = next.slice(0, MAX_FEED_ROWS);
+      setTrades([...tradesRef.current]);
+    };
+
+    // Orders split into many small prints only add up as clusters
+    const clusterer = createTradeClusterer(symbol);
+    const addClusters = (clusters: TradeCluster[]) => {
+      addRows(clusters.filter(c => c.notional >= thresholdRef.current).map(c => toClusterRow(c, nuclearThresholdRef.current)));
+    };
+    const flushInterval = setInterval(() => {
+      if (!isPausedRef.current) addClusters(clusterer.flush());
+    }, CLUSTER_FLUSH_INTERVAL);
+
+    // Inputs of the adaptive thresholds, collected whether or not adaptive mode is on
+    const adapter = getExchange(exchange);
+    const sizeStats = createTradeSizeStats();
+    let quoteVolume: number | null = null;
+    let isCancelled = false;
+    setAdaptiveThresholds(null);
+    const loadVolume = () => {
+      adapter.getTickers().then(tickers => {
+        if (isCancelled) return;
+        quoteVolume = tickers.find(t => t.symbol === symbol)?.quoteVolume ?? quoteVolume;
+      });
+    };
+    loadVolume();
+    const volumeInterval = setInterval(loadVolume, VOLUME_REFRESH_INTERVAL);
+    const adaptiveInterval = setInterval(() => {
+      const next = getAdaptiveThresholds(sizeStats, quoteVolume);
+      // Rounded values repeat most of the time; skip the re-render then
+      setAdaptiveThresholds(prev => (prev && next && prev.whale === next.whale && prev.nuclear === next.nuclear ? prev : next));
+    }, ADAPTIVE_UPDATE_INTERVAL);
+
+    const ws = adapter.subscribeToTrades(symbol, (data: MarketTrade) => {
+      sizeStats.add(data.price * data.quantity);
+      if (isPausedRef.current) return;
 
-      const price = parseFloat(data.p);
-      const quantity = parseFloat(data.q);
-      const value = price * quantity;
+      addClusters(clusterer.addTrade(data));
+
+      const value = data.price * data.quantity;
 
       // Only keep trades above minimum threshold to reduce noise
-      if (value < threshold) return;
+      if (value < thresholdRef.current) return;
 
-      const isNuclear = value > 1000000; // $1M+ is Nuclear
+      const isNuclear = value >= nuclearThresholdRef.current;
       
       const newTrade: ProcessedTrade = {
         ...data,
@@ -120,14 +633,32 @@ export const WhaleWatch: React.FC<WhaleWatchProps> = ({ symbol }) => {
         isNuclear
       };
 
-      tradesRef.current = [newTrade, ...tradesRef.current].slice(0, 50); // Keep last 50
-      setTrades([...tradesRef.current]);
+      addRows([newTrade]);
+    }, () => {
+      clusterer.reset();
+      sizeStats.reset();
+      tradesRef.current = [];
+      setTrades([]);
     });
 
+    // Icebergs are told apart from visible orders by the resting size at their price
+    const depthSubscription = adapter.subscribeToDepth(symbol, (depth) => clusterer.updateBook(depth));
+
     return () => {
+      isCancelled = true;
       ws.close();
+      depthSubscription.close();
+      clearInterval(flushInterval);
+      clearInterval(volumeInterval);
+      clearInterval(adaptiveInterval);
     };
-  }, [symbol, threshold, isPaused]);
+  }, [symbol, exchange]);
+
+  // Raising the threshold hides prints that no longer qualify
+  useEffect(() => {
+    tradesRef.current = tradesRef.current.filter(t => t.value >= effective.whale);
+    setTrades([...tradesRef.current]);
+  }, [effective.whale]);
 
   const formatCurrency = (val: number) => {
     return new Intl.NumberFormat('en-US', {
@@ -146,6 +677,8 @@ export const WhaleWatch: React.FC<WhaleWatchProps> = ({ symbol }) => {
         </div>
         
         <div className="flex items-center gap-2">
+          <StreamHealthBadge symbol={symbol} exchange={exchange} compact />
+          <ExchangeSelect value={exchange} onChange={setExchange} />
           <button 
             onClick={() => setIsPaused(!isPaused)}
             className="p-1.5 hover:bg-terminal-border rounded text-terminal-muted hover:text-white transition-colors"
@@ -156,14 +689,15 @@ export const WhaleWatch: React.FC<WhaleWatchProps> = ({ symbol }) => {
           <div className="flex items-center bg-terminal-bg border border-terminal-border rounded px-2 py-1 gap-2">
             <Filter size={12} className="text-terminal-muted" />
             <select 
-              value={threshold} 
-              onChange={(e) => setThreshold(Number(e.target.value))}
+              value={thresholdParam} 
+              onChange={(e) => setThresholdParam(e.target.value)}
+              title={`Whale ≥ ${formatCompact(effective.whale)}, nuclear ≥ ${formatCompact(effective.nuclear)}`}
               className="bg-transparent text-xs font-mono text-terminal-text outline-none"
             >
-              <option value="50000">$50k (Degen)</option>
-              <option value="100000">$100k (Standard)</option>
-              <option value="500000">$500k (Large)</option>
-              <option value="1000000">$1M (Whale)</option>
+              <option value="auto">
+                {adaptiveThresholds ? `Auto (${formatCompact(adaptiveThresholds.whale)} / ☢ ${formatCompact(adaptiveThresholds.nuclear)})` : 'Auto (learning...)'}
+              </option>
+              {THRESHOLD_OPTIONS.map(o => <option key={o.value} value={o.value}>{o.label}</option>)}
             </select>
           </div>
         </div>
@@ -172,11 +706,44 @@ export const WhaleWatch: React.FC<WhaleWatchProps> = ({ symbol }) => {
       {/* Chart Section */}
       <div className="shrink-0 relative w-full border-b border-terminal-border bg-terminal-panel" style={{ height: '200px' }}>
          <div ref={chartContainerRef} className="absolute inset-0" />
-         <div className="absolute top-2 left-2 z-10 text-[10px] bg-terminal-bg/50 px-2 py-0.5 rounded text-terminal-muted pointer-events-none">
-            M1 Timeframe
+         <div className="absolute top-2 left-2 z-10 flex items-center gap-2 text-[10px] font-mono">
+            <div className="flex bg-terminal-bg/70 rounded overflow-hidden">
+              {INTERVALS.map(i => (
+                <button
+                  key={i.value}
+                  onClick={() => setChartInterval(i.value)}
+                  className={`px-1.5 py-0.5 transition-colors ${chartInterval === i.value ? 'bg-terminal-border text-white' : 'text-terminal-muted hover:text-white'}`}
+                >
+                  {i.label}
+                </button>
+              ))}
+            </div>
+            <div className="flex bg-terminal-bg/70 rounded overflow-hidden">
+              {INDICATOR_LABELS.map(({ key, label }) => (
+                <button
+                  key={key}
+                  onClick={() => setIndicators({ ...indicators, [key]: !indicators[key] })}
+                  className={`px-1.5 py-0.5 transition-colors ${indicators[key] ? 'text-terminal-yellow' : 'text-terminal-muted hover:text-white'}`}
+                >
+                  {label}
+                </button>
+              ))}
+            </div>
          </div>
       </div>
 
+      {/* CVD Pane */}
+      <div className="shrink-0 relative w-full border-b border-terminal-border bg-terminal-panel" style={{ height: '100px' }}>
+         <div ref={cvdContainerRef} className="absolute inset-0" />
+         <button
+            onClick={() => setCvdMode(cvdMode === 'all' ? 'whale' : 'all')}
+            title={cvdMode === 'all' ? 'Only count trades above the threshold' : 'Count every trade'}
+            className="absolute top-1 left-2 z-10 text-[10px] font-mono bg-terminal-bg/50 px-2 py-0.5 rounded text-terminal-muted hover:text-white transition-colors"
+         >
+            CVD <span className="text-terminal-yellow">{cvdMode === 'all' ? 'All trades' : `Whales ≥ ${formatCompact(effective.whale)}`}</span>
+         </button>
+      </div>
+
       <div className="flex-1 overflow-y-auto p-0 scroll-smooth" ref={scrollRef}>
         <table className="w-full text-left border-collapse">
           <thead className="sticky top-0 bg-terminal-panel z-10 text-[10px] text-terminal-muted uppercase font-mono border-b border-terminal-border shadow-sm">
@@ -191,27 +758,44 @@ export const WhaleWatch: React.FC<WhaleWatchProps> = ({ symbol }) => {
             {trades.length === 0 ? (
               <tr>
                 <td colSpan={4} className="px-4 py-12 text-center text-terminal-muted italic">
-                  Waiting for trades &gt; {formatCurrency(threshold)}...
+                  Waiting for trades &gt; {formatCurrency(effective.whale)}...
                 </td>
               </tr>
             ) : (
               trades.map((trade) => (
                 <tr 
-                  key={trade.a} 
+                  key={trade.id} 
+                  data-trade-id={trade.id}
+                  onClick={() => setSelectedTradeId(trade.id === selectedTradeId ? null : trade.id)}
                   className={`
-                    border-b border-terminal-border/50 hover:bg-terminal-border/30 transition-colors
-                    ${trade.isNuclear ? 'bg-terminal-yellow/5' : ''}
+                    border-b border-terminal-border/50 hover:bg-terminal-border/30 transition-colors cursor-pointer
+                    ${trade.id === selectedTradeId ? 'bg-terminal-border/60' : trade.isNuclear ? 'bg-terminal-yellow/5' : ''}
                   `}
                 >
                   <td className="px-4 py-2 text-terminal-muted">
-                    {new Date(trade.T).toLocaleTimeString([], { hour12: false, hour: '2-digit', minute:'2-digit', second:'2-digit' })}
+                    {new Date(trade.time).toLocaleTimeString([], { hour12: false, hour: '2-digit', minute:'2-digit', second:'2-digit' })}
                   </td>
-                  <td className={`px-4 py-2 font-bold flex items-center gap-1 ${!trade.m ? 'text-terminal-green' : 'text-terminal-red'}`}>
-                    {!trade.m ? <ArrowUpRight size={14} /> : <ArrowDownRight size={14} />}
-                    {!trade.m ? 'BUY' : 'SELL'}
+                  <td className={`px-4 py-2 font-bold flex items-center gap-1 ${trade.side === 'buy' ? 'text-terminal-green' : 'text-terminal-red'}`}>
+                    {trade.side === 'buy' ? <ArrowUpRight size={14} /> : <ArrowDownRight size={14} />}
+                    {trade.side === 'buy' ? 'BUY' : 'SELL'}
+                    {trade.cluster && (
+                      <span className={`ml-1 px-1 rounded text-[9px] ${trade.cluster.kind === 'sweep' ? 'bg-blue-500/20 text-blue-400' : 'bg-purple-500/20 text-purple-400'}`}>
+                        {trade.cluster.kind === 'sweep' ? 'SWEEP' : 'ICEBERG'}
+                      </span>
+                    )}
                   </td>
                   <td className="px-4 py-2 text-terminal-text">
-                    {parseFloat(trade.p).toFixed(trade.p.indexOf('1') > 0 ? 4 : 2)}
+                    {trade.cluster?.kind === 'sweep' && trade.cluster.levels > 1 ? (
+                      <span title={`${trade.cluster.tradeCount} trades, avg ${formatPrice(trade.price, symbolInfo)}`}>
+                        {formatPrice(trade.cluster.lowPrice, symbolInfo)}–{formatPrice(trade.cluster.highPrice, symbolInfo)}
+                        <span className="text-terminal-muted"> · {trade.cluster.levels} lv</span>
+                      </span>
+                    ) : (
+                      <>
+                        {formatPrice(trade.price, symbolInfo)}
+                        {trade.cluster && <span className="text-terminal-muted"> ×{trade.cluster.tradeCount}</span>}
+                      </>
+                    )}
                   </td>
                   <td className={`px-4 py-2 text-right font-bold ${trade.isNuclear ? 'text-terminal-yellow' : 'text-terminal-text'}`}>
                     {formatCurrency(trade.value)}
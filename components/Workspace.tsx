@@ -0,0 +1,298 @@
+import React, { ReactNode, useEffect, useRef, useState } from 'react';
+import { Activity, Bell, Check, Copy, Flame, Grid3x3, GripVertical, Layers, LayoutGrid, Link2, List, Pencil, Percent, Pin, Plus, Radar, Trash2, X, Zap } from 'lucide-react';
+import { WorkspacePanel, WorkspacePanelType } from '../types';
+import { overlaps, WORKSPACE_COLUMNS, Workspaces } from '../services/workspaceLayouts';
+import { SymbolRegistry } from '../services/symbolRegistry';
+import { DEFAULT_EXCHANGE } from '../services/exchanges';
+import { useWorkspaces } from '../hooks/useWorkspaces';
+import { WatchlistPanel } from './WatchlistPanel';
+import { SqueezeScanner } from './SqueezeScanner';
+import { DepthVisualizer } from './DepthVisualizer';
+import { LiquidityHeatmap } from './LiquidityHeatmap';
+import { WhaleWatch } from './WhaleWatch';
+import { MarketWhaleTape } from './MarketWhaleTape';
+import { LiquidationFeed } from './LiquidationFeed';
+import { FundingPanel } from './FundingPanel';
+import { AlertsPanel } from './AlertsPanel';
+
+interface WorkspaceProps {
+  symbol: string; // The global symbol linked panels follow
+  onSelectSymbol: (symbol: string) => void;
+}
+
+// Height of one grid row and the gap between cells (px)
+const ROW_HEIGHT = 34;
+const GAP = 16;
+
+const MIN_PANEL_WIDTH = 2;
+const MIN_PANEL_HEIGHT = 3;
+
+const PANEL_TYPES: Record<WorkspacePanelType, { label: string; icon: ReactNode }> = {
+  watchlist: { label: 'Watchlist', icon: <List size={12} /> },
+  scanner: { label: 'Squeeze Scanner', icon: <Zap size={12} /> },
+  depth: { label: 'Depth Walls', icon: <Layers size={12} /> },
+  heatmap: { label: 'Heatmap', icon: <Grid3x3 size={12} /> },
+  whales: { label: 'Chart & Whales', icon: <Activity size={12} /> },
+  tape: { label: 'Whale Tape', icon: <Radar size={12} /> },
+  liquidations: { label: 'Liquidations', icon: <Flame size={12} /> },
+  funding: { label: 'Funding', icon: <Percent size={12} /> },
+  alerts: { label: 'Alerts', icon: <Bell size={12} /> }
+};
+
+const renderPanel = (type: WorkspacePanelType, symbol: string, onSelectSymbol: (symbol: string) => void) => {
+  switch (type) {
+    case 'watchlist': return <WatchlistPanel selectedSymbol={symbol} onSelectSymbol={onSelectSymbol} />;
+    case 'scanner': return <SqueezeScanner onSelectSymbol={onSelectSymbol} />;
+    case 'depth': return <DepthVisualizer symbol={symbol} />;
+    case 'heatmap': return <LiquidityHeatmap symbol={symbol} />;
+    case 'whales': return <WhaleWatch symbol={symbol} />;
+    case 'tape': return <MarketWhaleTape onSelectSymbol={onSelectSymbol} />;
+    case 'liquidations': return <LiquidationFeed symbol={symbol} onSelectSymbol={onSelectSymbol} />;
+    case 'funding': return <FundingPanel symbol={symbol} />;
+    case 'alerts': return <AlertsPanel symbol={symbol} />;
+  }
+};
+
+interface DragState {
+  mode: 'move' | 'resize';
+  origin: WorkspacePanel;
+  startX: number;
+  startY: number;
+}
+
+const inputClass = 'bg-terminal-bg border border-terminal-border rounded px-1.5 py-0.5 text-[10px] font-mono text-terminal-text outline-none';
+
+// Panels on a grid that can be added, moved, resized, duplicated and pinned to a symbol,
+// in named layouts that persist across sessions
+export const Workspace: React.FC<WorkspaceProps> = ({ symbol, onSelectSymbol }) => {
+  const { layouts, activeId } = useWorkspaces();
+  const layout = layouts.find(l => l.id === activeId) ?? layouts[0];
+  const [drag, setDrag] = useState<DragState | null>(null);
+  // Where the dragged panel would land; committed to the layout on release
+  const [preview, setPreview] = useState<WorkspacePanel | null>(null);
+  const previewRef = useRef(preview);
+  previewRef.current = preview;
+  const [nameDraft, setNameDraft] = useState<{ mode: 'create' | 'rename'; value: string } | null>(null);
+  const gridRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (!drag) return;
+    const { origin } = drag;
+    const others = layout.panels.filter(p => p.id !== origin.id);
+    const columnPitch = ((gridRef.current?.clientWidth ?? 0) + GAP) / WORKSPACE_COLUMNS;
+    const rowPitch = ROW_HEIGHT + GAP;
+
+    const handleMove = (e: PointerEvent) => {
+      const dx = Math.round((e.clientX - drag.startX) / columnPitch);
+      const dy = Math.round((e.clientY - drag.startY) / rowPitch);
+      const next = drag.mode === 'move'
+        ? { ...origin, x: Math.max(0, Math.min(WORKSPACE_COLUMNS - origin.w, origin.x + dx)), y: Math.max(0, origin.y + dy) }
+        : { ...origin, w: Math.max(MIN_PANEL_WIDTH, Math.min(WORKSPACE_COLUMNS - origin.x, origin.w + dx)), h: Math.max(MIN_PANEL_HEIGHT, origin.h + dy) };
+      // Positions that would cover another panel are skipped, so the preview stays at the last free one
+      if (!others.some(p => overlaps(next, p))) setPreview(next);
+    };
+    const handleUp = () => {
+      if (previewRef.current) Workspaces.updatePanel(layout.id, previewRef.current);
+      setPreview(null);
+      setDrag(null);
+    };
+
+    window.addEventListener('pointermove', handleMove);
+    window.addEventListener('pointerup', handleUp);
+    return () => {
+      window.removeEventListener('pointermove', handleMove);
+      window.removeEventListener('pointerup', handleUp);
+    };
+  }, [drag, layout]);
+
+  const startDrag = (mode: DragState['mode'], panel: WorkspacePanel) => (e: React.PointerEvent) => {
+    e.preventDefault();
+    setDrag({ mode, origin: panel, startX: e.clientX, startY: e.clientY });
+    setPreview(panel);
+  };
+
+  const saveName = () => {
+    if (!nameDraft) return;
+    const name = nameDraft.value.trim();
+    if (name) {
+      if (nameDraft.mode === 'create') Workspaces.create(name, layout);
+      else Workspaces.rename(layout.id, name);
+    }
+    setNameDraft(null);
+  };
+
+  const panels = layout.panels.map(p => (preview && p.id === preview.id ? preview : p));
+  const rows = Math.max(1, ...panels.map(p => p.y + p.h));
+
+  return (
+    <div className="flex flex-col h-full gap-3">
+      <div className="flex items-center gap-2 text-[10px] font-mono text-terminal-muted shrink-0">
+        <LayoutGrid size={14} className="text-terminal-yellow" />
+        {nameDraft ? (
+          <>
+            <input
+              autoFocus
+              value={nameDraft.value}
+              onChange={(e) => setNameDraft({ ...nameDraft, value: e.target.value })}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter') saveName();
+                if (e.key === 'Escape') setNameDraft(null);
+              }}
+              placeholder="Layout name"
+              className={`${inputClass} w-32`}
+            />
+            <button onClick={saveName} title="Save" className="p-1 hover:text-white"><Check size={12} /></button>
+            <button onClick={() => setNameDraft(null)} title="Cancel" className="p-1 hover:text-white"><X size={12} /></button>
+          </>
+        ) : (
+          <>
+            <select value={layout.id} onChange={(e) => Workspaces.setActive(e.target.value)} title="Layout" className={inputClass}>
+              {layouts.map(l => <option key={l.id} value={l.id}>{l.name}</option>)}
+            </select>
+            <button onClick={() => setNameDraft({ mode: 'create', value: `${layout.name} copy` })} title="Save as a new layout" className="p-1 hover:text-white"><Plus size={12} /></button>
+            <button onClick={() => setNameDraft({ mode: 'rename', value: layout.name })} title="Rename layout" className="p-1 hover:text-white"><Pencil size={12} /></button>
+            <button
+              onClick={() => Workspaces.remove(layout.id)}
+              disabled={layouts.length <= 1}
+              title="Delete layout"
+              className="p-1 hover:text-terminal-red disabled:opacity-30"
+            >
+              <Trash2 size={12} />
+            </button>
+          </>
+        )}
+        <select
+          value=""
+          onChange={(e) => { if (e.target.value) Workspaces.addPanel(layout.id, e.target.value as WorkspacePanelType); }}
+          title="Add panel"
+          className={`${inputClass} ml-auto`}
+        >
+          <option value="">+ Add panel</option>
+          {(Object.keys(PANEL_TYPES) as WorkspacePanelType[]).map(type => (
+            <option key={type} value={type}>{PANEL_TYPES[type].label}</option>
+          ))}
+        </select>
+      </div>
+
+      <div className="flex-1 min-h-0 overflow-y-auto">
+        <div
+          ref={gridRef}
+          className={`grid ${drag ? 'select-none' : ''}`}
+          style={{
+            gridTemplateColumns: `repeat(${WORKSPACE_COLUMNS}, minmax(0, 1fr))`,
+            gridTemplateRows: `repeat(${rows}, ${ROW_HEIGHT}px)`,
+            gap: `${GAP}px`
+          }}
+        >
+          {panels.map(panel => (
+            <PanelFrame
+              key={panel.id}
+              panel={panel}
+              globalSymbol={symbol}
+              isDragging={drag?.origin.id === panel.id}
+              onMoveStart={startDrag('move', panel)}
+              onResizeStart={startDrag('resize', panel)}
+              onChange={(next) => Workspaces.updatePanel(layout.id, next)}
+              onDuplicate={() => Workspaces.duplicatePanel(layout.id, panel.id, panel.symbol ?? symbol)}
+              onRemove={() => Workspaces.removePanel(layout.id, panel.id)}
+              onSelectSymbol={onSelectSymbol}
+            />
+          ))}
+        </div>
+        {panels.length === 0 && (
+          <div className="py-16 text-center text-xs text-terminal-muted italic">
+            This layout is empty. Add a panel to start.
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+interface PanelFrameProps {
+  panel: WorkspacePanel;
+  globalSymbol: string;
+  isDragging: boolean;
+  onMoveStart: (e: React.PointerEvent) => void;
+  onResizeStart: (e: React.PointerEvent) => void;
+  onChange: (panel: WorkspacePanel) => void;
+  onDuplicate: () => void;
+  onRemove: () => void;
+  onSelectSymbol: (symbol: string) => void;
+}
+
+const PanelFrame: React.FC<PanelFrameProps> = ({
+  panel, globalSymbol, isDragging, onMoveStart, onResizeStart, onChange, onDuplicate, onRemove, onSelectSymbol
+}) => {
+  const [symbolDraft, setSymbolDraft] = useState(panel.symbol ?? '');
+  const [symbolError, setSymbolError] = useState<string | null>(null);
+  const symbolDraftRef = useRef(symbolDraft);
+  symbolDraftRef.current = symbolDraft;
+
+  useEffect(() => {
+    setSymbolDraft(panel.symbol ?? '');
+    setSymbolError(null);
+  }, [panel.symbol]);
+
+  // Same rule as the global symbol box: only venue-confirmed symbols are pinned
+  const submitSymbol = () => {
+    const candidate = symbolDraft.trim();
+    if (!candidate || candidate === panel.symbol) return;
+    SymbolRegistry.validate(DEFAULT_EXCHANGE, candidate).then(error => {
+      if (symbolDraftRef.current.trim() !== candidate) return; // Typed over while validating
+      if (error) setSymbolError(error);
+      else onChange({ ...panel, symbol: candidate });
+    });
+  };
+
+  const type = PANEL_TYPES[panel.type];
+  const symbol = panel.symbol ?? globalSymbol;
+
+  return (
+    <div
+      className={`relative flex flex-col min-h-0 min-w-0 ${isDragging ? 'opacity-80 ring-1 ring-terminal-yellow rounded-lg' : ''}`}
+      style={{ gridColumn: `${panel.x + 1} / span ${panel.w}`, gridRow: `${panel.y + 1} / span ${panel.h}` }}
+    >
+      <div className="flex items-center gap-1.5 h-6 px-1 text-[10px] font-mono text-terminal-muted shrink-0">
+        <button onPointerDown={onMoveStart} title="Drag to move" className="cursor-move hover:text-white touch-none">
+          <GripVertical size={12} />
+        </button>
+        {type.icon}
+        <span className="uppercase tracking-wider truncate">{type.label}</span>
+        {panel.symbol === null ? (
+          <button
+            onClick={() => onChange({ ...panel, symbol: globalSymbol })}
+            title="Follows the global symbol; click to pin this panel to it"
+            className="ml-auto flex items-center gap-1 hover:text-white"
+          >
+            <Link2 size={11} /> {globalSymbol}
+          </button>
+        ) : (
+          <span className="ml-auto flex items-center gap-1">
+            <button onClick={() => onChange({ ...panel, symbol: null })} title="Pinned; click to follow the global symbol" className="text-terminal-yellow hover:text-white">
+              <Pin size={11} />
+            </button>
+            <input
+              value={symbolDraft}
+              onChange={(e) => { setSymbolDraft(e.target.value.toUpperCase()); setSymbolError(null); }}
+              onKeyDown={(e) => { if (e.key === 'Enter') submitSymbol(); }}
+              onBlur={submitSymbol}
+              title={symbolError ?? 'Pinned symbol'}
+              className={`bg-transparent outline-none w-20 uppercase ${symbolError ? 'text-terminal-red' : 'text-terminal-text'}`}
+            />
+          </span>
+        )}
+        <button onClick={onDuplicate} title="Duplicate, pinned to this symbol" className="p-0.5 hover:text-white"><Copy size={11} /></button>
+        <button onClick={onRemove} title="Remove panel" className="p-0.5 hover:text-terminal-red"><X size={12} /></button>
+      </div>
+      <div className="flex-1 min-h-0">
+        {renderPanel(panel.type, symbol, onSelectSymbol)}
+      </div>
+      <div
+        onPointerDown={onResizeStart}
+        title="Drag to resize"
+        className="absolute bottom-0 right-0 w-3 h-3 cursor-se-resize touch-none border-r-2 border-b-2 border-terminal-muted/50 hover:border-terminal-yellow rounded-br-lg"
+      />
+    </div>
+  );
+};
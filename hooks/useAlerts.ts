@@ -0,0 +1,11 @@
+import { useSyncExternalStore } from 'react';
+import { AlertRules } from '../services/alertRules';
+import { AlertHistory } from '../services/alertHistory';
+import { AlertFiring, AlertRule } from '../types';
+
+export const useAlertRules = (): AlertRule[] =>
+  useSyncExternalStore(AlertRules.subscribe, AlertRules.getSnapshot);
+
+// Fired alerts, newest first
+export const useAlertHistory = (): AlertFiring[] =>
+  useSyncExternalStore(AlertHistory.subscribe, AlertHistory.getSnapshot);
@@ -0,0 +1,120 @@
+import { useEffect, useRef, useState } from 'react';
+import { getExchange } from '../services/exchanges';
+import { ExchangeId, FundingInfo, MarketTicker } from '../types';
+
+// Stream frames are folded into the returned maps at most this often (ms)
+const RENDER_INTERVAL = 1000;
+// Without a frame for this long the streams count as down, and REST is polled every REST_POLL_INTERVAL
+const STREAM_STALE_AFTER = 15000;
+const REST_POLL_INTERVAL = 60000;
+
+export interface MarketTickers {
+  tickers: Map<string, MarketTicker>; // By symbol
+  funding: Map<string, FundingInfo>; // By symbol
+  isStreaming: boolean; // False while REST polling stands in for the streams
+  isLoading: boolean; // A REST fetch is in flight
+  lastUpdated: Date | null;
+  refresh: () => void; // Fetches REST right away
+}
+
+interface MarketSnapshot {
+  exchange: ExchangeId;
+  tickers: Map<string, MarketTicker>;
+  funding: Map<string, FundingInfo>;
+  lastUpdated: Date;
+}
+
+const EMPTY_TICKERS = new Map<string, MarketTicker>();
+const EMPTY_FUNDING = new Map<string, FundingInfo>();
+
+// Every symbol's ticker and funding on a venue from the market-wide streams, seeded and backed up by REST
+export const useMarketTickers = (exchange: ExchangeId): MarketTickers => {
+  const [snapshot, setSnapshot] = useState<MarketSnapshot | null>(null);
+  const [isStreaming, setIsStreaming] = useState(false);
+  const [isLoading, setIsLoading] = useState(true);
+  const refreshRef = useRef(() => {});
+
+  useEffect(() => {
+    const adapter = getExchange(exchange);
+    let tickers = new Map<string, MarketTicker>();
+    let funding = new Map<string, FundingInfo>();
+    let lastFrameAt = 0;
+    let isDirty = false;
+    let isCancelled = false;
+    setIsStreaming(false);
+
+    const publish = () => {
+      isDirty = false;
+      setSnapshot({ exchange, tickers: new Map(tickers), funding: new Map(funding), lastUpdated: new Date() });
+    };
+    const mergeTickers = (next: MarketTicker[]) => {
+      next.forEach(t => tickers.set(t.symbol, t));
+      isDirty = true;
+    };
+    const mergeFunding = (rates: FundingInfo[]) => {
+      rates.forEach(r => funding.set(r.symbol, r));
+      isDirty = true;
+    };
+    const fetchData = () => {
+      setIsLoading(true);
+      Promise.all([adapter.getTickers(), adapter.getFundingRates()]).then(([nextTickers, rates]) => {
+        if (isCancelled) return;
+        mergeTickers(nextTickers);
+        mergeFunding(rates);
+        publish();
+      }).finally(() => {
+        if (!isCancelled) setIsLoading(false);
+      });
+    };
+    refreshRef.current = fetchData;
+
+    const handleFrame = () => {
+      lastFrameAt = Date.now();
+    };
+    const reset = () => {
+      tickers = new Map();
+      funding = new Map();
+      isDirty = true;
+    };
+    const tickerSubscription = adapter.subscribeToTickers(next => {
+      handleFrame();
+      mergeTickers(next);
+    }, reset);
+    const fundingSubscription = adapter.subscribeToFundingRates(rates => {
+      handleFrame();
+      mergeFunding(rates);
+    }, reset);
+
+    // The ticker stream only sends symbols that changed, so REST seeds the full set
+    fetchData();
+
+    const renderInterval = setInterval(() => {
+      setIsStreaming(Date.now() - lastFrameAt < STREAM_STALE_AFTER);
+      if (isDirty) publish();
+    }, RENDER_INTERVAL);
+
+    // Poll REST only while the streams are unavailable or silent
+    const pollInterval = setInterval(() => {
+      if (Date.now() - lastFrameAt >= STREAM_STALE_AFTER) fetchData();
+    }, REST_POLL_INTERVAL);
+
+    return () => {
+      isCancelled = true;
+      tickerSubscription?.close();
+      fundingSubscription?.close();
+      clearInterval(renderInterval);
+      clearInterval(pollInterval);
+    };
+  }, [exchange]);
+
+  // Until the new venue's data arrives nothing from the previous one is returned
+  const isCurrent = snapshot?.exchange === exchange;
+  return {
+    tickers: isCurrent ? snapshot.tickers : EMPTY_TICKERS,
+    funding: isCurrent ? snapshot.funding : EMPTY_FUNDING,
+    isStreaming,
+    isLoading,
+    lastUpdated: isCurrent ? snapshot.lastUpdated : null,
+    refresh: () => refreshRef.current()
+  };
+};
@@ -0,0 +1,6 @@
+import { useSyncExternalStore } from 'react';
+import { ScannerCandidates } from '../services/scannerCandidates';
+
+// Ranked symbols of the most recently opened scanner; empty while no scanner is open
+export const useScannerCandidates = (): string[] =>
+  useSyncExternalStore(ScannerCandidates.subscribe, ScannerCandidates.getSnapshot);
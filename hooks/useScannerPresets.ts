@@ -0,0 +1,5 @@
+import { useSyncExternalStore } from 'react';
+import { ScannerPresets, ScannerPresetState } from '../services/scannerPresets';
+
+export const useScannerPresets = (): ScannerPresetState =>
+  useSyncExternalStore(ScannerPresets.subscribe, ScannerPresets.getState);
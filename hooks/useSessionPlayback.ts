@@ -0,0 +1,9 @@
+import { useSyncExternalStore } from 'react';
+import { SessionRecorder, RecorderState } from '../services/sessionRecorder';
+import { ReplayPlayer, ReplayState } from '../services/replayPlayer';
+
+export const useRecorderState = (): RecorderState =>
+  useSyncExternalStore(SessionRecorder.subscribe, SessionRecorder.getState);
+
+export const useReplayState = (): ReplayState =>
+  useSyncExternalStore(ReplayPlayer.subscribe, ReplayPlayer.getState);
@@ -0,0 +1,14 @@
+import { useMemo, useSyncExternalStore } from 'react';
+import { StreamHealthRegistry, summarizeStreamHealth, StreamHealthSummary } from '../services/streamHealth';
+import { ExchangeId, StreamHealth } from '../types';
+
+// Live health of open streams, optionally limited to one symbol's and/or one venue's streams
+export const useStreamHealth = (symbol?: string, exchange?: ExchangeId): { streams: StreamHealth[]; summary: StreamHealthSummary } => {
+  const all = useSyncExternalStore(StreamHealthRegistry.subscribe, StreamHealthRegistry.getSnapshot);
+
+  return useMemo(() => {
+    const upper = symbol?.toUpperCase();
+    const streams = all.filter(s => (!upper || s.symbol === upper) && (!exchange || s.exchange === exchange));
+    return { streams, summary: summarizeStreamHealth(streams) };
+  }, [all, symbol, exchange]);
+};
@@ -0,0 +1,16 @@
+import { useEffect, useSyncExternalStore } from 'react';
+import { SymbolRegistry } from '../services/symbolRegistry';
+import { ExchangeId, SymbolInfo } from '../types';
+
+// Every symbol listed on a venue, undefined while the list loads
+export const useSymbols = (exchange: ExchangeId): Map<string, SymbolInfo> | undefined => {
+  useEffect(() => {
+    SymbolRegistry.load(exchange);
+  }, [exchange]);
+
+  return useSyncExternalStore(SymbolRegistry.subscribe, () => SymbolRegistry.getLoaded(exchange));
+};
+
+// Metadata for one symbol, null while loading or when the venue does not list it
+export const useSymbolInfo = (symbol: string, exchange: ExchangeId): SymbolInfo | null =>
+  useSymbols(exchange)?.get(symbol.toUpperCase()) ?? null;
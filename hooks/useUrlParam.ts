@@ -0,0 +1,23 @@
+import { useState, useSyncExternalStore } from 'react';
+import { UrlState } from '../services/urlState';
+
+interface UrlParamOptions {
+  // Values outside this set read as the fallback
+  allowed?: readonly string[];
+  // Settings tweaks replace the history entry instead of adding one
+  replace?: boolean;
+  // False keeps the value in component state instead, for panels that can be open more than once
+  syncUrl?: boolean;
+}
+
+// One query string parameter as state. The fallback is left out of the URL to keep links short.
+export const useUrlParam = (key: string, fallback: string, options: UrlParamOptions = {}): [string, (value: string) => void] => {
+  const syncUrl = options.syncUrl ?? true;
+  const raw = useSyncExternalStore(UrlState.subscribe, () => (syncUrl ? UrlState.get(key) : null));
+  const [localValue, setLocalValue] = useState(fallback);
+  if (!syncUrl) return [localValue, setLocalValue];
+
+  const value = raw !== null && (!options.allowed || options.allowed.includes(raw)) ? raw : fallback;
+  const setValue = (next: string) => UrlState.set({ [key]: next === fallback ? null : next }, options.replace);
+  return [value, setValue];
+};
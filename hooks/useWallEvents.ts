@@ -0,0 +1,13 @@
+import { useMemo, useSyncExternalStore } from 'react';
+import { WallEvents } from '../services/wallEvents';
+import { ExchangeId, WallEvent } from '../types';
+
+// Recent wall events, newest first, optionally limited to one symbol and/or venue
+export const useWallEvents = (symbol?: string, exchange?: ExchangeId): WallEvent[] => {
+  const all = useSyncExternalStore(WallEvents.subscribe, WallEvents.getSnapshot);
+
+  return useMemo(() => {
+    const upper = symbol?.toUpperCase();
+    return all.filter(e => (!upper || e.wall.symbol === upper) && (!exchange || e.wall.exchange === exchange));
+  }, [all, symbol, exchange]);
+};
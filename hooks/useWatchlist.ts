@@ -0,0 +1,9 @@
+import { useSyncExternalStore } from 'react';
+import { Watchlist } from '../types';
+import { Watchlists, WatchlistState } from '../services/watchlist';
+
+export const useWatchlists = (): WatchlistState =>
+  useSyncExternalStore(Watchlists.subscribe, Watchlists.getState);
+
+export const useActiveWatchlist = (): Watchlist =>
+  useSyncExternalStore(Watchlists.subscribe, Watchlists.getActive);
@@ -0,0 +1,5 @@
+import { useSyncExternalStore } from 'react';
+import { Workspaces, WorkspaceState } from '../services/workspaceLayouts';
+
+export const useWorkspaces = (): WorkspaceState =>
+  useSyncExternalStore(Workspaces.subscribe, Workspaces.getState);
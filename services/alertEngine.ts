@@ -0,0 +1,204 @@
+import { AlertRule, AlertRuleType, ExchangeId, FundingInfo, MarketDepth, MarketSubscription, MarketTrade, PriceLevel } from '../types';
+import { getExchange } from './exchanges';
+import { AlertRules } from './alertRules';
+import { AlertHistory } from './alertHistory';
+import { SymbolRegistry, formatPrice, formatQuantity } from './symbolRegistry';
+
+// Funding is polled at this interval on venues without a market-wide funding stream (ms)
+const FUNDING_POLL_INTERVAL = 60000;
+
+const sources = new Map<string, MarketSubscription>(); // Source key -> open stream
+const lastFiredAt = new Map<string, number>(); // Rule id + symbol -> time, for cooldowns
+const conditionsMet = new Set<string>(); // Rule id + symbol while a level condition holds
+const lastPrices = new Map<string, number>(); // Exchange + symbol -> last trade price, for crossings
+let audioContext: AudioContext | null = null;
+
+const formatUsd = (val: number) => {
+  if (val >= 1000000) return '$' + (val / 1000000).toFixed(2) + 'M';
+  return '$' + (val / 1000).toFixed(0) + 'K';
+};
+
+const getRules = (exchange: ExchangeId, type: AlertRuleType, symbol: string) =>
+  AlertRules.getSnapshot().filter(r =>
+    r.enabled && r.exchange === exchange && r.type === type && (r.symbol === null || r.symbol === symbol)
+  );
+
+const compare = (actual: number, rule: AlertRule) => (rule.direction === 'above' ? actual >= rule.value : actual <= rule.value);
+
+// Short two-tone beep; no audio files to ship
+const playSound = () => {
+  try {
+    audioContext = audioContext ?? new AudioContext();
+    const now = audioContext.currentTime;
+    const oscillator = audioContext.createOscillator();
+    const gain = audioContext.createGain();
+    oscillator.frequency.setValueAtTime(880, now);
+    oscillator.frequency.setValueAtTime(1320, now + 0.12);
+    gain.gain.setValueAtTime(0.2, now);
+    gain.gain.exponentialRampToValueAtTime(0.001, now + 0.35);
+    oscillator.connect(gain).connect(audioContext.destination);
+    oscillator.start(now);
+    oscillator.stop(now + 0.35);
+  } catch (error) {
+    console.error('Error playing alert sound:', error);
+  }
+};
+
+const fire = (rule: AlertRule, symbol: string, message: string) => {
+  const key = `${rule.id}:${symbol}`;
+  const now = Date.now();
+  if (now - (lastFiredAt.get(key) ?? 0) < rule.cooldownSeconds * 1000) return;
+  lastFiredAt.set(key, now);
+
+  AlertHistory.record({ ruleId: rule.id, exchange: rule.exchange, symbol, message, time: now });
+  if (rule.notify && typeof Notification !== 'undefined' && Notification.permission === 'granted') {
+    new Notification(`WhaleStation · ${symbol}`, { body: message, tag: key });
+  }
+  if (rule.sound) playSound();
+};
+
+// Level conditions fire when they become true rather than on every update while they hold
+const fireOnEdge = (rule: AlertRule, symbol: string, isMet: boolean, getMessage: () => string) => {
+  const key = `${rule.id}:${symbol}`;
+  if (!isMet) {
+    conditionsMet.delete(key);
+    return;
+  }
+  if (conditionsMet.has(key)) return;
+  conditionsMet.add(key);
+  fire(rule, symbol, getMessage());
+};
+
+const onTrade = (exchange: ExchangeId, symbol: string, trade: MarketTrade) => {
+  const info = SymbolRegistry.getLoaded(exchange)?.get(symbol);
+  const value = trade.price * trade.quantity;
+  getRules(exchange, 'trade', symbol).forEach(rule => {
+    if (compare(value, rule)) fire(rule, symbol, `${trade.side.toUpperCase()} ${formatUsd(value)} @ ${formatPrice(trade.price, info)}`);
+  });
+
+  const priceKey = `${exchange}:${symbol}`;
+  const previous = lastPrices.get(priceKey);
+  lastPrices.set(priceKey, trade.price);
+  if (previous === undefined) return;
+  getRules(exchange, 'price', symbol).forEach(rule => {
+    const crossed = rule.direction === 'above'
+      ? previous < rule.value && trade.price >= rule.value
+      : previous > rule.value && trade.price <= rule.value;
+    if (crossed) fire(rule, symbol, `Price crossed ${rule.direction} ${formatPrice(rule.value, info)} (last ${formatPrice(trade.price, info)})`);
+  });
+};
+
+const onDepth = (exchange: ExchangeId, symbol: string, depth: MarketDepth) => {
+  if (!depth.bids.length || !depth.asks.length) return;
+  const mid = (depth.bids[0].price + depth.asks[0].price) / 2;
+  const info = SymbolRegistry.getLoaded(exchange)?.get(symbol);
+
+  getRules(exchange, 'wall', symbol).forEach(rule => {
+    const side = rule.side ?? 'bid';
+    const maxDistance = rule.maxDistance ?? 0;
+    // Levels are sorted outward from the touch
+    let largest: PriceLevel | null = null;
+    for (const level of side === 'bid' ? depth.bids : depth.asks) {
+      if (Math.abs(level.price - mid) > mid * maxDistance / 100) break;
+      if (!largest || level.quantity > largest.quantity) largest = level;
+    }
+    const size = largest?.quantity ?? 0;
+    fireOnEdge(rule, symbol, compare(size, rule), () => largest
+      ? `Largest ${side} within ${maxDistance}%: ${formatQuantity(size, info)} @ ${formatPrice(largest.price, info)}`
+      : `No ${side} levels within ${maxDistance}%`
+    );
+  });
+};
+
+const onFunding = (exchange: ExchangeId, rates: FundingInfo[]) => {
+  const rules = AlertRules.getSnapshot().filter(r => r.enabled && r.exchange === exchange && r.type === 'funding');
+  if (rules.length === 0) return;
+  rates.forEach(rate => {
+    const percent = rate.fundingRate * 100;
+    rules.forEach(rule => {
+      if (rule.symbol !== null && rule.symbol !== rate.symbol) return;
+      fireOnEdge(rule, rate.symbol, compare(percent, rule), () => `Funding ${percent >= 0 ? '+' : ''}${percent.toFixed(4)}%`);
+    });
+  });
+};
+
+// Funding rules share one market-wide feed per venue; the others need the symbol's own stream
+const getSourceKey = (rule: AlertRule): string | null => {
+  if (rule.type === 'funding') return `${rule.exchange}:funding:*`;
+  if (!rule.symbol) return null;
+  return `${rule.exchange}:${rule.type === 'wall' ? 'depth' : 'trades'}:${rule.symbol}`;
+};
+
+const openSource = (key: string): MarketSubscription => {
+  const [exchange, kind, symbol] = key.split(':') as [ExchangeId, string, string];
+  const adapter = getExchange(exchange);
+
+  if (kind === 'trades') {
+    return adapter.subscribeToTrades(symbol, (trade) => onTrade(exchange, symbol, trade), () => {
+      lastPrices.delete(`${exchange}:${symbol}`); // Replay seeks would look like crossings
+    });
+  }
+  if (kind === 'depth') {
+    return adapter.subscribeToDepth(symbol, (depth) => onDepth(exchange, symbol, depth));
+  }
+
+  const stream = adapter.subscribeToFundingRates((rates) => onFunding(exchange, rates));
+  if (stream) return stream;
+  let isClosed = false;
+  const poll = () => {
+    adapter.getFundingRates().then(rates => {
+      if (!isClosed) onFunding(exchange, rates);
+    });
+  };
+  poll();
+  const interval = setInterval(poll, FUNDING_POLL_INTERVAL);
+  return {
+    close: () => {
+      isClosed = true;
+      clearInterval(interval);
+    }
+  };
+};
+
+// Opens the streams enabled rules need and closes the rest
+const reconcile = () => {
+  const rules = AlertRules.getSnapshot();
+  const needed = new Set<string>();
+  rules.forEach(rule => {
+    const key = rule.enabled ? getSourceKey(rule) : null;
+    if (key) needed.add(key);
+  });
+
+  sources.forEach((subscription, key) => {
+    if (needed.has(key)) return;
+    subscription.close();
+    sources.delete(key);
+  });
+  needed.forEach(key => {
+    if (!sources.has(key)) sources.set(key, openSource(key));
+  });
+
+  // Forget state of deleted rules
+  const ids = new Set(rules.map(r => r.id));
+  const isStale = (key: string) => !ids.has(key.slice(0, key.lastIndexOf(':')));
+  lastFiredAt.forEach((_, key) => {
+    if (isStale(key)) lastFiredAt.delete(key);
+  });
+  conditionsMet.forEach(key => {
+    if (isStale(key)) conditionsMet.delete(key);
+  });
+};
+
+// Evaluates the saved alert rules against live market data for as long as it runs
+export const AlertEngine = {
+  // Returns a function that stops the engine and closes its streams
+  start: () => {
+    reconcile();
+    const unsubscribe = AlertRules.subscribe(reconcile);
+    return () => {
+      unsubscribe();
+      sources.forEach(subscription => subscription.close());
+      sources.clear();
+    };
+  }
+};
@@ -0,0 +1,47 @@
+import { AlertFiring } from '../types';
+import { createListeners } from './store';
+
+const STORAGE_KEY = 'whalestation.alertHistory';
+
+// Firings kept, newest first
+const MAX_FIRINGS = 200;
+
+const listeners = createListeners();
+
+const load = (): AlertFiring[] => {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    if (raw) return JSON.parse(raw);
+  } catch (error) {
+    console.error('Error loading alert history:', error);
+  }
+  return [];
+};
+
+let snapshot: AlertFiring[] = load();
+let nextId = snapshot.reduce((max, f) => Math.max(max, f.id), 0) + 1;
+
+const setSnapshot = (next: AlertFiring[]) => {
+  snapshot = next;
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(snapshot));
+  } catch (error) {
+    console.error('Error saving alert history:', error);
+  }
+  listeners.notify();
+};
+
+// Log of fired alerts, persisted so firings are not lost on reload
+export const AlertHistory = {
+  record: (firing: Omit<AlertFiring, 'id'>): AlertFiring => {
+    const full: AlertFiring = { ...firing, id: nextId++ };
+    setSnapshot([full, ...snapshot].slice(0, MAX_FIRINGS));
+    return full;
+  },
+
+  clear: () => setSnapshot([]),
+
+  getSnapshot: (): AlertFiring[] => snapshot,
+
+  subscribe: listeners.subscribe
+};
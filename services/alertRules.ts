@@ -0,0 +1,67 @@
+import { AlertRule } from '../types';
+import { createListeners, createId } from './store';
+
+const STORAGE_KEY = 'whalestation.alertRules';
+
+const listeners = createListeners();
+
+const load = (): AlertRule[] => {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    if (raw) return JSON.parse(raw);
+  } catch (error) {
+    console.error('Error loading alert rules:', error);
+  }
+  return [];
+};
+
+let rules: AlertRule[] = load();
+
+const setRules = (next: AlertRule[]) => {
+  rules = next;
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(rules));
+  } catch (error) {
+    console.error('Error saving alert rules:', error);
+  }
+  listeners.notify();
+};
+
+const formatValue = (rule: AlertRule) => {
+  switch (rule.type) {
+    case 'trade': return `$${rule.value.toLocaleString()}`;
+    case 'funding': return `${rule.value}%`;
+    default: return rule.value.toLocaleString();
+  }
+};
+
+// One-line summary for rule lists, e.g. "SOLUSDT trade above $2,000,000"
+export const describeRule = (rule: AlertRule) => {
+  const symbol = rule.symbol ?? 'Any symbol';
+  if (rule.type === 'wall') {
+    return `${symbol} ${rule.side ?? 'bid'} wall ${rule.direction} ${formatValue(rule)} within ${rule.maxDistance ?? 0}%`;
+  }
+  if (rule.type === 'price') return `${symbol} price crosses ${rule.direction} ${formatValue(rule)}`;
+  return `${symbol} ${rule.type} ${rule.direction} ${formatValue(rule)}`;
+};
+
+// User-defined alert rules, persisted across sessions
+export const AlertRules = {
+  getSnapshot: (): AlertRule[] => rules,
+
+  // Adds or replaces a rule
+  save: (rule: AlertRule) => {
+    const exists = rules.some(r => r.id === rule.id);
+    setRules(exists ? rules.map(r => (r.id === rule.id ? rule : r)) : [...rules, rule]);
+  },
+
+  remove: (id: string) => {
+    setRules(rules.filter(r => r.id !== id));
+  },
+
+  setEnabled: (id: string, enabled: boolean) => {
+    setRules(rules.map(r => (r.id === id ? { ...r, enabled } : r)));
+  },
+
+  subscribe: listeners.subscribe
+};
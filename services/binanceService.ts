@@ -1,9 +1,28 @@
-import { Ticker24h, PremiumIndex, OrderBook, Kline } from '../types';
+import { ExchangeInfoSymbol, Ticker24h, PremiumIndex, OrderBook, Kline, DepthUpdateEvent, BookSyncStatus, ForceOrderEvent, HistoricalAggTrade, OpenInterestHist, TickerEvent, MarkPriceEvent, FundingRateHist } from '../types';
+import { StreamConnection } from './streamConnection';
+import { StreamHub } from './streamHub';
 
 const BASE_URL = 'https://fapi.binance.com';
-const WS_BASE_URL = 'wss://fstream.binance.com/ws';
+
+// Order book resync backoff (ms)
+const DEPTH_RESYNC_BASE_DELAY = 250;
+const DEPTH_RESYNC_MAX_DELAY = 10000;
+const DEPTH_BUFFER_LIMIT = 2000; // Diff events held while a snapshot is in flight
 
 export const BinanceService = {
+  // Fetch trading rules (status, price and quantity filters) for every symbol
+  getExchangeInfo: async (): Promise<ExchangeInfoSymbol[]> => {
+    try {
+      const response = await fetch(`${BASE_URL}/fapi/v1/exchangeInfo`);
+      if (!response.ok) throw new Error('Network response was not ok');
+      const data = await response.json();
+      return data.symbols;
+    } catch (error) {
+      console.error('Error fetching exchange info:', error);
+      return [];
+    }
+  },
+
   // Fetch 24hr ticker for all symbols to get price and volume
   get24hrTicker: async (): Promise<Ticker24h[]> => {
     try {
@@ -28,6 +47,70 @@ export const BinanceService = {
     }
   },
 
+  // Fetch settled funding rates, oldest first
+  getFundingRateHistory: async (symbol: string, limit: number = 100): Promise<FundingRateHist[]> => {
+    try {
+      const response = await fetch(`${BASE_URL}/fapi/v1/fundingRate?symbol=${symbol}&limit=${limit}`);
+      if (!response.ok) throw new Error('Network response was not ok');
+      return await response.json();
+    } catch (error) {
+      console.error('Error fetching funding rate history:', error);
+      return [];
+    }
+  },
+
+  // Fetch current Open Interest
+  getOpenInterest: async (symbol: string): Promise<{ openInterest: string; time: number } | null> => {
+    try {
+      const response = await fetch(`${BASE_URL}/fapi/v1/openInterest?symbol=${symbol}`);
+      if (!response.ok) throw new Error('Network response was not ok');
+      return await response.json();
+    } catch (error) {
+      console.error('Error fetching open interest:', error);
+      return null;
+    }
+  },
+
+  // Fetch Open Interest History (only the last 30 days are available)
+  getOpenInterestHist: async (symbol: string, period: string = '5m', limit: number = 30): Promise<OpenInterestHist[]> => {
+    try {
+      const response = await fetch(`${BASE_URL}/futures/data/openInterestHist?symbol=${symbol}&period=${period}&limit=${limit}`);
+      if (!response.ok) throw new Error('Network response was not ok');
+      return await response.json();
+    } catch (error) {
+      console.error('Error fetching open interest history:', error);
+      return [];
+    }
+  },
+
+  // First aggregate trade at or after a time, for paging by id; null when none follows within the hour
+  getAggTradeAt: async (symbol: string, time: number): Promise<HistoricalAggTrade | null> => {
+    if (StreamHub.isReplaying()) return null;
+    try {
+      const response = await fetch(`${BASE_URL}/fapi/v1/aggTrades?symbol=${symbol}&startTime=${time}&endTime=${time + 3600000 - 1}&limit=1`);
+      if (!response.ok) throw new Error('Network response was not ok');
+      const trades: HistoricalAggTrade[] = await response.json();
+      return trades[0] ?? null;
+    } catch (error) {
+      console.error('Error fetching aggregate trade:', error);
+      return null;
+    }
+  },
+
+  // Fetch up to 1000 aggregate trades, oldest first: the latest ones, or those starting at fromId
+  getAggTrades: async (symbol: string, fromId?: number): Promise<HistoricalAggTrade[]> => {
+    if (StreamHub.isReplaying()) return [];
+    try {
+      const from = fromId !== undefined ? `&fromId=${fromId}` : '';
+      const response = await fetch(`${BASE_URL}/fapi/v1/aggTrades?symbol=${symbol}&limit=1000${from}`);
+      if (!response.ok) throw new Error('Network response was not ok');
+      return await response.json();
+    } catch (error) {
+      console.error('Error fetching aggregate trades:', error);
+      return [];
+    }
+  },
+
   // Fetch Order Book Depth (REST - Legacy/Snapshot)
   getDepth: async (symbol: string): Promise<OrderBook | null> => {
     try {
@@ -42,19 +125,81 @@ export const BinanceService = {
   },
 
   // Real-time Order Book Subscription (WebSocket + Local State)
-  subscribeToDepth: (symbol: string, callback: (depth: OrderBook) => void) => {
-    const ws = new WebSocket(`${WS_BASE_URL}/${symbol.toLowerCase()}@depth@100ms`);
+  // Follows the Binance futures local book procedure: buffer diffs, fetch a snapshot,
+  // require the first applied event to straddle the snapshot's lastUpdateId, then
+  // require every event's `pu` to match the previous `u`. Any break triggers a resync.
+  subscribeToDepth: (
+    symbol: string,
+    callback: (depth: OrderBook) => void,
+    onStatus?: (status: BookSyncStatus) => void
+  ): StreamConnection => {
     let isSnapshotLoaded = false;
-    let eventBuffer: any[] = [];
+    let isFirstEventApplied = false;
+    let eventBuffer: DepthUpdateEvent[] = [];
     const bids = new Map<string, string>(); // Price -> Qty
     const asks = new Map<string, string>(); // Price -> Qty
     let lastFinalUpdateId = 0;
     let isClosed = false;
+    let status: BookSyncStatus | null = null;
+    let resyncTimer: ReturnType<typeof setTimeout> | null = null;
+    let snapshotAttempt = 0;
+    let snapshotRequest = 0; // Bumped on every resync so stale snapshot responses are ignored
+    let tappedRecordingId = 0;
+    const diffStream = `${symbol.toLowerCase()}@depth@100ms`;
+    // REST snapshots are not part of any websocket stream, so they travel to the recorder
+    // (and back out of replays) on a stream name of their own
+    const snapshotStream = `${symbol.toLowerCase()}@depthSnapshot`;
 
-    const processUpdate = (data: any) => {
-      // Discard older events based on update ID
-      if (data.u <= lastFinalUpdateId) return;
+    const setStatus = (next: BookSyncStatus) => {
+      if (status === next) return;
+      status = next;
+      onStatus?.(next);
+    };
+
+    const emitBook = () => {
+      // Convert Map to Sorted Arrays for the UI
+      // Bids: High to Low
+      const sortedBids = Array.from(bids.entries()).sort((a, b) => parseFloat(b[0]) - parseFloat(a[0]));
+      // Asks: Low to High
+      const sortedAsks = Array.from(asks.entries()).sort((a, b) => parseFloat(a[0]) - parseFloat(b[0]));
 
+      callback({
+        lastUpdateId: lastFinalUpdateId,
+        bids: sortedBids,
+        asks: sortedAsks
+      });
+    };
+
+    // A recording that starts mid-stream needs the current book as its starting point
+    const tapBookIfRecording = () => {
+      const recordingId = StreamHub.getTapId();
+      if (!recordingId || recordingId === tappedRecordingId) return;
+      tappedRecordingId = recordingId;
+      StreamHub.tap(snapshotStream, {
+        lastUpdateId: lastFinalUpdateId,
+        bids: Array.from(bids.entries()),
+        asks: Array.from(asks.entries())
+      });
+    };
+
+    // Drop the local book and rebuild it from a fresh snapshot
+    const resync = () => {
+      if (isClosed) return;
+      setStatus('desynced');
+      isSnapshotLoaded = false;
+      isFirstEventApplied = false;
+      snapshotRequest++;
+      if (resyncTimer) clearTimeout(resyncTimer);
+      resyncTimer = null;
+      // During replay the snapshot arrives as a recorded frame instead
+      if (StreamHub.isReplaying()) return;
+      // Back off on repeated failures so a broken feed does not hammer the REST API
+      const delay = Math.min(DEPTH_RESYNC_BASE_DELAY * 2 ** snapshotAttempt, DEPTH_RESYNC_MAX_DELAY);
+      snapshotAttempt++;
+      resyncTimer = setTimeout(loadSnapshot, delay);
+    };
+
+    const applyUpdate = (data: DepthUpdateEvent) => {
       // Update Bids
       for (const [price, qty] of data.b) {
         if (parseFloat(qty) === 0) bids.delete(price);
@@ -66,81 +211,169 @@ export const BinanceService = {
         if (parseFloat(qty) === 0) asks.delete(price);
         else asks.set(price, qty);
       }
-      
+
       lastFinalUpdateId = data.u;
-      
-      // Convert Map to Sorted Arrays for the UI
-      // Bids: High to Low
-      const sortedBids = Array.from(bids.entries()).sort((a, b) => parseFloat(b[0]) - parseFloat(a[0]));
-      // Asks: Low to High
-      const sortedAsks = Array.from(asks.entries()).sort((a, b) => parseFloat(a[0]) - parseFloat(b[0]));
+    };
 
-      callback({
-        lastUpdateId: lastFinalUpdateId,
-        bids: sortedBids,
-        asks: sortedAsks
-      });
+    // Returns false when the event reveals a gap and the book had to be resynced
+    const processUpdate = (data: DepthUpdateEvent): boolean => {
+      // Discard older events based on update ID
+      if (data.u < lastFinalUpdateId || (isFirstEventApplied && data.u === lastFinalUpdateId)) return true;
+
+      if (!isFirstEventApplied) {
+        // First event must straddle the snapshot: U <= lastUpdateId <= u. A snapshot of
+        // our own book (taken by the recorder) ends exactly on an event boundary instead.
+        if (data.U > lastFinalUpdateId && data.pu !== lastFinalUpdateId) {
+          console.warn(`Depth snapshot for ${symbol} is behind the stream, resyncing`);
+          resync();
+          return false;
+        }
+        isFirstEventApplied = true;
+      } else if (data.pu !== lastFinalUpdateId) {
+        console.warn(`Depth gap for ${symbol}: expected pu=${lastFinalUpdateId}, got ${data.pu}`);
+        resync();
+        return false;
+      }
+
+      applyUpdate(data);
+      snapshotAttempt = 0;
+      setStatus('live');
+      tapBookIfRecording();
+      return true;
     };
 
-    ws.onmessage = (event) => {
+    const handleEvent = (data: DepthUpdateEvent) => {
       if (isClosed) return;
-      const data = JSON.parse(event.data);
       if (!isSnapshotLoaded) {
         eventBuffer.push(data);
+        // A stale buffer is useless anyway: the straddle check will force another snapshot
+        if (eventBuffer.length > DEPTH_BUFFER_LIMIT) eventBuffer.shift();
+      } else if (processUpdate(data)) {
+        emitBook();
       } else {
-        processUpdate(data);
+        // The gap event itself is needed after the new snapshot arrives
+        eventBuffer.push(data);
       }
     };
 
-    // Fetch Initial Snapshot to build base book
-    fetch(`${BASE_URL}/fapi/v1/depth?symbol=${symbol}&limit=1000`)
-      .then(res => res.json())
-      .then((snapshot: OrderBook) => {
-        if (isClosed) return;
-
-        lastFinalUpdateId = snapshot.lastUpdateId;
-        
-        // Initialize Maps
-        snapshot.bids.forEach(([p, q]) => bids.set(p, q));
-        snapshot.asks.forEach(([p, q]) => asks.set(p, q));
-        
-        isSnapshotLoaded = true;
-
-        // Process any events that came in while fetching snapshot
-        const relevantEvents = eventBuffer.filter(e => e.u > lastFinalUpdateId);
-        relevantEvents.forEach(processUpdate);
-        eventBuffer = [];
-      })
-      .catch(e => console.error('Depth snapshot error:', e));
+    const applySnapshot = (snapshot: OrderBook) => {
+      lastFinalUpdateId = snapshot.lastUpdateId;
+
+      // Initialize Maps
+      bids.clear();
+      asks.clear();
+      snapshot.bids.forEach(([p, q]) => bids.set(p, q));
+      snapshot.asks.forEach(([p, q]) => asks.set(p, q));
+
+      isSnapshotLoaded = true;
+      setStatus('syncing');
+
+      // Process any events that came in while fetching snapshot
+      const pending = eventBuffer;
+      eventBuffer = [];
+      for (let i = 0; i < pending.length; i++) {
+        if (!processUpdate(pending[i])) {
+          eventBuffer = pending.slice(i);
+          return;
+        }
+      }
+      if (isFirstEventApplied) emitBook();
+    };
+
+    // Fetch Snapshot to build base book
+    const loadSnapshot = () => {
+      if (isClosed) return;
+      resyncTimer = null;
+      setStatus(status === 'desynced' ? 'desynced' : 'syncing');
+      if (StreamHub.isReplaying()) return;
+
+      const request = snapshotRequest;
+      fetch(`${BASE_URL}/fapi/v1/depth?symbol=${symbol}&limit=1000`)
+        .then(res => {
+          if (!res.ok) throw new Error('Network response was not ok');
+          return res.json();
+        })
+        .then((snapshot: OrderBook) => {
+          if (isClosed || request !== snapshotRequest || StreamHub.isReplaying()) return;
+          StreamHub.tap(snapshotStream, snapshot);
+          tappedRecordingId = StreamHub.getTapId();
+          applySnapshot(snapshot);
+        })
+        .catch(e => {
+          if (request !== snapshotRequest) return;
+          console.error('Depth snapshot error:', e);
+          resync();
+        });
+    };
+
+    // Replay switches and seeks restart history, so nothing buffered is still relevant
+    const reset = () => {
+      eventBuffer = [];
+      snapshotAttempt = 0;
+      resync();
+    };
+
+    const diffConnection = StreamHub.subscribe(diffStream, {
+      onMessage: handleEvent,
+      // Diffs were missed while the socket was down, so the book cannot be trusted
+      onReconnect: resync,
+      onReset: reset
+    });
+
+    // Only carries frames during replay
+    const snapshotConnection = StreamHub.subscribe(snapshotStream, {
+      onMessage: (snapshot: OrderBook) => {
+        if (isClosed || !StreamHub.isReplaying()) return;
+        applySnapshot(snapshot);
+      }
+    });
+
+    loadSnapshot();
 
     return {
       close: () => {
         isClosed = true;
-        if (ws.readyState === WebSocket.OPEN) ws.close();
+        if (resyncTimer) clearTimeout(resyncTimer);
+        diffConnection.close();
+        snapshotConnection.close();
       }
     };
   },
 
   // WebSocket for Aggregated Trades
-  subscribeToTrades: (symbol: string, callback: (data: any) => void) => {
-    const ws = new WebSocket(`${WS_BASE_URL}/${symbol.toLowerCase()}@aggTrade`);
-    
-    ws.onmessage = (event) => {
-      const data = JSON.parse(event.data);
-      callback(data);
-    };
+  subscribeToTrades: (symbol: string, callback: (data: any) => void, onReset?: () => void): StreamConnection => {
+    return StreamHub.subscribe(`${symbol.toLowerCase()}@aggTrade`, { onMessage: callback, onReset });
+  },
 
-    ws.onerror = (error) => {
-      console.error(`WebSocket error for ${symbol}:`, error);
-    };
+  // WebSocket for Forced Liquidations (null symbol = whole market)
+  // Binance pushes at most one liquidation per symbol per second on these streams
+  subscribeToLiquidations: (symbol: string | null, callback: (data: ForceOrderEvent) => void, onReset?: () => void): StreamConnection => {
+    const stream = symbol ? `${symbol.toLowerCase()}@forceOrder` : '!forceOrder@arr';
+    return StreamHub.subscribe(stream, { onMessage: callback, onReset });
+  },
+
+  // WebSocket for one symbol's mark price and estimated funding rate (1s)
+  subscribeToMarkPrice: (symbol: string, callback: (mark: MarkPriceEvent) => void, onReset?: () => void): StreamConnection => {
+    return StreamHub.subscribe(`${symbol.toLowerCase()}@markPrice@1s`, { onMessage: callback, onReset });
+  },
 
-    return ws;
+  // WebSocket for every symbol's 24h ticker; frames carry only the tickers that changed (~1s)
+  subscribeToTickers: (callback: (tickers: TickerEvent[]) => void, onReset?: () => void): StreamConnection => {
+    return StreamHub.subscribe('!ticker@arr', { onMessage: callback, onReset });
+  },
+
+  // WebSocket for every symbol's mark price and funding rate (1s)
+  subscribeToMarkPrices: (callback: (marks: MarkPriceEvent[]) => void, onReset?: () => void): StreamConnection => {
+    return StreamHub.subscribe('!markPrice@arr@1s', { onMessage: callback, onReset });
   },
 
   // Fetch Historical Klines
-  getKlines: async (symbol: string, interval: string = '1m', limit: number = 200): Promise<Kline[]> => {
+  getKlines: async (symbol: string, interval: string = '1m', limit: number = 200, endTime?: number): Promise<Kline[]> => {
+    // Live history would sit in the future of a replayed session; replays build candles from frames
+    if (StreamHub.isReplaying()) return [];
     try {
-      const response = await fetch(`${BASE_URL}/fapi/v1/klines?symbol=${symbol}&interval=${interval}&limit=${limit}`);
+      const end = endTime !== undefined ? `&endTime=${endTime}` : '';
+      const response = await fetch(`${BASE_URL}/fapi/v1/klines?symbol=${symbol}&interval=${interval}&limit=${limit}${end}`);
       if (!response.ok) throw new Error('Network response was not ok');
       const data = await response.json();
       return data.map((d: any[]) => ({
@@ -149,7 +382,8 @@ export const BinanceService = {
         high: parseFloat(d[2]),
         low: parseFloat(d[3]),
         close: parseFloat(d[4]),
-        volume: parseFloat(d[5])
+        volume: parseFloat(d[5]),
+        takerBuyVolume: parseFloat(d[9])
       }));
     } catch (error) {
       console.error('Error fetching klines:', error);
@@ -158,22 +392,21 @@ export const BinanceService = {
   },
 
   // WebSocket for Klines (Candles)
-  subscribeToKlines: (symbol: string, interval: string, callback: (kline: Kline) => void) => {
-    const ws = new WebSocket(`${WS_BASE_URL}/${symbol.toLowerCase()}@kline_${interval}`);
-    
-    ws.onmessage = (event) => {
-      const data = JSON.parse(event.data);
-      const k = data.k;
-      callback({
-        time: k.t / 1000,
-        open: parseFloat(k.o),
-        high: parseFloat(k.h),
-        low: parseFloat(k.l),
-        close: parseFloat(k.c),
-        volume: parseFloat(k.v)
-      });
-    };
-
-    return ws;
+  subscribeToKlines: (symbol: string, interval: string, callback: (kline: Kline) => void, onReset?: () => void): StreamConnection => {
+    return StreamHub.subscribe(`${symbol.toLowerCase()}@kline_${interval}`, {
+      onReset,
+      onMessage: (data) => {
+        const k = data.k;
+        callback({
+          time: k.t / 1000,
+          open: parseFloat(k.o),
+          high: parseFloat(k.h),
+          low: parseFloat(k.l),
+          close: parseFloat(k.c),
+          volume: parseFloat(k.v),
+          takerBuyVolume: parseFloat(k.V)
+        });
+      }
+    });
   }
 };
\ No newline at end of file
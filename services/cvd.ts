@@ -0,0 +1,87 @@
+import { MarketTrade } from '../types';
+
+// Trades from this notional (USDT) up are also summed per size bin, so whale-only CVD
+// can be recomputed for any threshold from here up without keeping every trade
+export const CVD_MIN_WHALE_VALUE = 1000;
+
+// Size bin of a notional: its value cut to two significant figures, e.g. 12,345 -> 12,000.
+// Whale thresholds are two significant figures as well, so every bin lies wholly above or below one.
+const getSizeBin = (value: number) => {
+  const magnitude = 10 ** Math.max(0, Math.floor(Math.log10(value)) - 1);
+  return Math.floor(value / magnitude) * magnitude;
+};
+
+interface CvdBucket {
+  delta: number; // Aggressive buy minus sell quantity
+  whaleDeltas: Map<number, number>; // Size bin (lower edge, USDT) -> delta of trades in it
+}
+
+export interface CvdTracker {
+  addTrade: (trade: MarketTrade) => void;
+  // Whole-candle delta from kline taker volume, for history no trades are held for. It replaces
+  // any trades counted in that candle; whale-only CVD cannot use it and starts at the first trade.
+  setCandleDelta: (time: number, delta: number) => void;
+  // Cumulative delta at the close of each candle; null for candles before the first trade seen.
+  // With minValue set only trades of at least that notional count; minValue needs two significant figures at most.
+  getSeries: (candleTimes: number[], minValue: number | null) => (number | null)[];
+  reset: () => void;
+}
+
+// Per-candle volume delta for one symbol; candle times are in seconds like the kline series
+export const createCvdTracker = (candleSeconds: number): CvdTracker => {
+  const buckets = new Map<number, CvdBucket>();
+  const candleDeltas = new Map<number, number>();
+  let firstCandle = Infinity; // Earliest candle with trades
+  let firstCandleDelta = Infinity; // Earliest candle with a kline delta
+
+  return {
+    addTrade: (trade) => {
+      const time = Math.floor(trade.time / 1000 / candleSeconds) * candleSeconds;
+      const bucket = buckets.get(time) || { delta: 0, whaleDeltas: new Map() };
+      const delta = trade.side === 'buy' ? trade.quantity : -trade.quantity;
+      bucket.delta += delta;
+      const value = trade.price * trade.quantity;
+      if (value >= CVD_MIN_WHALE_VALUE) {
+        const bin = getSizeBin(value);
+        bucket.whaleDeltas.set(bin, (bucket.whaleDeltas.get(bin) ?? 0) + delta);
+      }
+      buckets.set(time, bucket);
+      firstCandle = Math.min(firstCandle, time);
+    },
+
+    setCandleDelta: (time, delta) => {
+      candleDeltas.set(time, delta);
+      firstCandleDelta = Math.min(firstCandleDelta, time);
+    },
+
+    getSeries: (candleTimes, minValue) => {
+      const minBin = minValue === null ? 0 : getSizeBin(Math.max(minValue, CVD_MIN_WHALE_VALUE));
+      const start = minValue === null ? Math.min(firstCandle, firstCandleDelta) : firstCandle;
+      let cumulative = 0;
+      return candleTimes.map(time => {
+        if (time < start) return null;
+        const bucket = buckets.get(time);
+        const candleDelta = candleDeltas.get(time);
+        if (minValue === null && candleDelta !== undefined) {
+          cumulative += candleDelta;
+        } else if (bucket) {
+          if (minValue === null) {
+            cumulative += bucket.delta;
+          } else {
+            bucket.whaleDeltas.forEach((delta, bin) => {
+              if (bin >= minBin) cumulative += delta;
+            });
+          }
+        }
+        return cumulative;
+      });
+    },
+
+    reset: () => {
+      buckets.clear();
+      candleDeltas.clear();
+      firstCandle = Infinity;
+      firstCandleDelta = Infinity;
+    }
+  };
+};
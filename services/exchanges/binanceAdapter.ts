@@ -0,0 +1,156 @@
+import { AggTrade, ExchangeAdapter, ForceOrderEvent, HistoricalAggTrade, MarkPriceEvent, MarketTrade, PriceLevel, TickerEvent } from '../../types';
+import { BinanceService } from '../binanceService';
+
+// Trade backfill pages (1000 aggregate trades each) per request. Busy symbols trade thousands
+// per minute, so this bounds the request weight rather than guaranteeing full coverage.
+const MAX_TRADE_PAGES = 20;
+
+const toLevels = (levels: string[][]): PriceLevel[] =>
+  levels.map(([price, quantity]) => ({ price: parseFloat(price), quantity: parseFloat(quantity) }));
+
+const toTrade = (symbol: string, trade: HistoricalAggTrade): MarketTrade => ({
+  id: String(trade.a),
+  symbol,
+  price: parseFloat(trade.p),
+  quantity: parseFloat(trade.q),
+  time: trade.T,
+  side: trade.m ? 'sell' : 'buy' // Buyer is maker => seller was the aggressor
+});
+
+// Maps the raw Binance USDT-M API onto the normalized market data interface
+export const BinanceAdapter: ExchangeAdapter = {
+  id: 'binance',
+  name: 'Binance',
+
+  getSymbols: async () => {
+    const symbols = await BinanceService.getExchangeInfo();
+    return symbols.map(s => {
+      const getFilter = (type: string) => s.filters.find(f => f.filterType === type);
+      return {
+        symbol: s.symbol,
+        status: s.status,
+        isTrading: s.status === 'TRADING',
+        tickSize: parseFloat(getFilter('PRICE_FILTER')?.tickSize ?? '0'),
+        stepSize: parseFloat(getFilter('LOT_SIZE')?.stepSize ?? '0'),
+        // Quarterly contracts are CURRENT_QUARTER / NEXT_QUARTER
+        contractType: s.contractType === 'PERPETUAL' ? 'perpetual' : 'delivery',
+        onboardDate: s.onboardDate
+      };
+    });
+  },
+
+  getTickers: async () => {
+    const tickers = await BinanceService.get24hrTicker();
+    return tickers.map(t => ({
+      symbol: t.symbol,
+      lastPrice: parseFloat(t.lastPrice),
+      priceChangePercent: parseFloat(t.priceChangePercent),
+      volume: parseFloat(t.volume),
+      quoteVolume: parseFloat(t.quoteVolume)
+    }));
+  },
+
+  getFundingRates: async () => {
+    const premiumIndices = await BinanceService.getPremiumIndex();
+    return premiumIndices.map(p => ({
+      symbol: p.symbol,
+      fundingRate: parseFloat(p.lastFundingRate),
+      nextFundingTime: p.nextFundingTime,
+      markPrice: parseFloat(p.markPrice),
+      interestRate: parseFloat(p.interestRate)
+    }));
+  },
+
+  getFundingHistory: async (symbol, limit) => {
+    const history = await BinanceService.getFundingRateHistory(symbol, limit);
+    return history.map(h => ({ time: h.fundingTime, rate: parseFloat(h.fundingRate) }));
+  },
+
+  subscribeToFunding: (symbol, callback, onReset) =>
+    BinanceService.subscribeToMarkPrice(symbol, (mark: MarkPriceEvent) => {
+      callback({
+        symbol: mark.s,
+        fundingRate: parseFloat(mark.r),
+        nextFundingTime: mark.T,
+        markPrice: parseFloat(mark.p)
+      });
+    }, onReset),
+
+  getKlines: BinanceService.getKlines,
+
+  getOpenInterest: async (symbol) => {
+    const oi = await BinanceService.getOpenInterest(symbol);
+    return oi ? { time: oi.time, openInterest: parseFloat(oi.openInterest) } : null;
+  },
+
+  getOpenInterestHistory: async (symbol, period, limit) => {
+    const history = await BinanceService.getOpenInterestHist(symbol, period, limit);
+    return history.map(h => ({ time: h.timestamp, openInterest: parseFloat(h.sumOpenInterest) }));
+  },
+
+  subscribeToDepth: (symbol, callback, onStatus) =>
+    BinanceService.subscribeToDepth(symbol, (book) => {
+      callback({
+        symbol,
+        updateId: book.lastUpdateId,
+        bids: toLevels(book.bids),
+        asks: toLevels(book.asks)
+      });
+    }, onStatus),
+
+  // Pages backwards by aggregate trade id from the latest trades, or from the first at endTime
+  getTradesSince: async (symbol, startTime, endTime) => {
+    const pages: HistoricalAggTrade[][] = [];
+    const end = endTime === undefined ? null : await BinanceService.getAggTradeAt(symbol, endTime);
+    let page = end ? await BinanceService.getAggTrades(symbol, Math.max(0, end.a - 1000)) : await BinanceService.getAggTrades(symbol);
+    if (endTime !== undefined) page = page.filter(t => t.T < endTime);
+    while (page.length > 0) {
+      pages.unshift(page);
+      if (page[0].T <= startTime || pages.length >= MAX_TRADE_PAGES || page[0].a === 0) break;
+      page = await BinanceService.getAggTrades(symbol, Math.max(0, page[0].a - 1000));
+      page = page.filter(t => t.a < pages[0][0].a);
+    }
+    return pages.flat().filter(t => t.T >= startTime).map(t => toTrade(symbol, t));
+  },
+
+  subscribeToTrades: (symbol, callback, onReset) =>
+    BinanceService.subscribeToTrades(symbol, (trade: AggTrade) => callback(toTrade(trade.s, trade)), onReset),
+
+  subscribeToKlines: BinanceService.subscribeToKlines,
+
+  subscribeToLiquidations: (symbol, callback, onReset) =>
+    BinanceService.subscribeToLiquidations(symbol, (event: ForceOrderEvent) => {
+      const order = event.o;
+      const price = parseFloat(order.ap) || parseFloat(order.p);
+      const quantity = parseFloat(order.z) || parseFloat(order.q);
+      callback({
+        symbol: order.s,
+        side: order.S === 'SELL' ? 'long' : 'short', // A forced sell closes a long
+        price,
+        quantity,
+        value: price * quantity,
+        time: order.T
+      });
+    }, onReset),
+
+  subscribeToTickers: (callback, onReset) =>
+    BinanceService.subscribeToTickers((tickers: TickerEvent[]) => {
+      callback(tickers.map(t => ({
+        symbol: t.s,
+        lastPrice: parseFloat(t.c),
+        priceChangePercent: parseFloat(t.P),
+        volume: parseFloat(t.v),
+        quoteVolume: parseFloat(t.q)
+      })));
+    }, onReset),
+
+  subscribeToFundingRates: (callback, onReset) =>
+    BinanceService.subscribeToMarkPrices((marks: MarkPriceEvent[]) => {
+      callback(marks.map(m => ({
+        symbol: m.s,
+        fundingRate: parseFloat(m.r),
+        nextFundingTime: m.T,
+        markPrice: parseFloat(m.p)
+      })));
+    }, onReset)
+};
@@ -0,0 +1,368 @@
+import { BookSyncStatus, ExchangeAdapter, FundingInfo, FundingRatePoint, Kline, MarketTicker, MarketTrade, PriceLevel, SymbolInfo } from '../../types';
+import { StreamProtocol } from '../streamConnection';
+import { createStreamHub, StreamListener } from '../streamHub';
+
+const BASE_URL = 'https://api.bybit.com';
+const WS_URL = 'wss://stream.bybit.com/v5/public/linear';
+
+// 200 levels are pushed every 100ms, the closest match to Binance's depth@100ms
+const BOOK_DEPTH = 200;
+
+// Binance-style interval -> Bybit interval
+const INTERVALS: Record<string, string> = {
+  '1m': '1', '3m': '3', '5m': '5', '15m': '15', '30m': '30',
+  '1h': '60', '2h': '120', '4h': '240', '6h': '360', '12h': '720',
+  '1d': 'D', '1w': 'W', '1M': 'M'
+};
+
+const toBybitInterval = (interval: string) => INTERVALS[interval] ?? interval;
+
+// Binance-style open interest period -> Bybit intervalTime
+const OI_PERIODS: Record<string, string> = {
+  '5m': '5min', '15m': '15min', '30m': '30min', '1h': '1h', '4h': '4h', '1d': '1d'
+};
+
+interface BybitInstrument {
+  symbol: string;
+  status: string;
+  contractType: string; // LinearPerpetual or LinearFutures
+  launchTime: string;
+  priceFilter: { tickSize: string };
+  lotSizeFilter: { qtyStep: string };
+}
+
+interface BybitLinearTicker {
+  symbol: string;
+  lastPrice: string;
+  price24hPcnt: string; // Fraction, e.g. "0.0123"
+  volume24h: string;
+  turnover24h: string;
+  fundingRate: string;
+  nextFundingTime: string;
+  markPrice: string;
+}
+
+const BYBIT_PROTOCOL: StreamProtocol = {
+  heartbeat: (id) => ({ op: 'ping', req_id: String(id) }),
+  request: (method, params, id) => ({ op: method, args: params, req_id: String(id) }),
+  // Every control reply (pong, subscribe acks) carries `op`; market data carries `topic`
+  parseReply: (data) => (data && data.op !== undefined ? (data.req_id ? Number(data.req_id) : null) : undefined)
+};
+
+const BybitStreamHub = createStreamHub({
+  exchange: 'bybit',
+  protocol: BYBIT_PROTOCOL,
+  buildUrl: () => WS_URL,
+  streamsInUrl: false,
+  maxStreams: 200,
+  // Payload: { topic, type, ts, data }. The whole message is passed on because
+  // order books need `type` to tell snapshots from deltas.
+  parseMessage: (message) => (message && message.topic ? { stream: message.topic, data: message } : null),
+  getEventTime: (message) => message?.ts,
+  // Topics end with the symbol: publicTrade.BTCUSDT, orderbook.200.BTCUSDT, kline.1.BTCUSDT
+  getStreamSymbol: (topic) => topic.split('.').pop() ?? null
+});
+
+// Tickers and order books send their snapshot only when the topic is first subscribed, so a
+// listener joining a topic that is already open asks for a fresh one. The listeners already
+// there simply start over from it.
+const subscribeWithSnapshot = (topic: string, listener: StreamListener) => {
+  const subscription = BybitStreamHub.subscribe(topic, listener);
+  BybitStreamHub.resubscribe(topic); // Does nothing until the topic is open on the socket
+  return subscription;
+};
+
+const fetchResult = async <T>(path: string): Promise<T> => {
+  const response = await fetch(`${BASE_URL}${path}`);
+  if (!response.ok) throw new Error('Network response was not ok');
+  const body = await response.json();
+  if (body.retCode !== 0) throw new Error(body.retMsg);
+  return body.result;
+};
+
+// Tickers and funding come from the same endpoint on Bybit
+const getLinearTickers = async (): Promise<BybitLinearTicker[]> => {
+  const result = await fetchResult<{ list: BybitLinearTicker[] }>('/v5/market/tickers?category=linear');
+  // The linear category also lists USDC contracts
+  return result.list.filter(t => t.symbol.endsWith('USDT'));
+};
+
+const sortLevels = (levels: Map<string, string>, descending: boolean): PriceLevel[] => {
+  const sorted = Array.from(levels.entries()).map(([price, quantity]) => ({ price: parseFloat(price), quantity: parseFloat(quantity) }));
+  return sorted.sort((a, b) => (descending ? b.price - a.price : a.price - b.price));
+};
+
+export const BybitAdapter: ExchangeAdapter = {
+  id: 'bybit',
+  name: 'Bybit',
+
+  getSymbols: async (): Promise<SymbolInfo[]> => {
+    try {
+      const result = await fetchResult<{ list: BybitInstrument[] }>('/v5/market/instruments-info?category=linear&limit=1000');
+      return result.list
+        .filter(i => i.symbol.endsWith('USDT'))
+        .map(i => ({
+          symbol: i.symbol,
+          status: i.status,
+          isTrading: i.status === 'Trading',
+          tickSize: parseFloat(i.priceFilter.tickSize),
+          stepSize: parseFloat(i.lotSizeFilter.qtyStep),
+          contractType: i.contractType === 'LinearPerpetual' ? 'perpetual' : 'delivery',
+          onboardDate: Number(i.launchTime)
+        }));
+    } catch (error) {
+      console.error('Error fetching Bybit instruments:', error);
+      return [];
+    }
+  },
+
+  getTickers: async (): Promise<MarketTicker[]> => {
+    try {
+      const tickers = await getLinearTickers();
+      return tickers.map(t => ({
+        symbol: t.symbol,
+        lastPrice: parseFloat(t.lastPrice),
+        priceChangePercent: parseFloat(t.price24hPcnt) * 100,
+        volume: parseFloat(t.volume24h),
+        quoteVolume: parseFloat(t.turnover24h)
+      }));
+    } catch (error) {
+      console.error('Error fetching Bybit tickers:', error);
+      return [];
+    }
+  },
+
+  getFundingRates: async (): Promise<FundingInfo[]> => {
+    try {
+      const tickers = await getLinearTickers();
+      return tickers.map(t => ({
+        symbol: t.symbol,
+        fundingRate: parseFloat(t.fundingRate),
+        nextFundingTime: Number(t.nextFundingTime),
+        markPrice: parseFloat(t.markPrice)
+      }));
+    } catch (error) {
+      console.error('Error fetching Bybit funding:', error);
+      return [];
+    }
+  },
+
+  getFundingHistory: async (symbol, limit): Promise<FundingRatePoint[]> => {
+    try {
+      const result = await fetchResult<{ list: { fundingRate: string; fundingRateTimestamp: string }[] }>(
+        `/v5/market/funding/history?category=linear&symbol=${symbol}&limit=${limit}`
+      );
+      // Newest first
+      return result.list.reverse().map(f => ({ time: Number(f.fundingRateTimestamp), rate: parseFloat(f.fundingRate) }));
+    } catch (error) {
+      console.error('Error fetching Bybit funding history:', error);
+      return [];
+    }
+  },
+
+  // The tickers topic sends a snapshot followed by deltas that carry only the changed fields
+  subscribeToFunding: (symbol, callback, onReset) => {
+    let ticker: Partial<BybitLinearTicker> = {};
+    return subscribeWithSnapshot(`tickers.${symbol}`, {
+      onMessage: (message) => {
+        ticker = message.type === 'snapshot' ? message.data : { ...ticker, ...message.data };
+        if (ticker.fundingRate === undefined || ticker.nextFundingTime === undefined || ticker.markPrice === undefined) return;
+        callback({
+          symbol,
+          fundingRate: parseFloat(ticker.fundingRate),
+          nextFundingTime: Number(ticker.nextFundingTime),
+          markPrice: parseFloat(ticker.markPrice)
+        });
+      },
+      onReset: () => {
+        ticker = {};
+        onReset?.();
+      }
+    });
+  },
+
+  getKlines: async (symbol, interval, limit, endTime): Promise<Kline[]> => {
+    try {
+      const end = endTime !== undefined ? `&end=${endTime}` : '';
+      const result = await fetchResult<{ list: string[][] }>(
+        `/v5/market/kline?category=linear&symbol=${symbol}&interval=${toBybitInterval(interval)}&limit=${limit}${end}`
+      );
+      // Newest first: [start, open, high, low, close, volume, turnover]
+      return result.list.reverse().map(d => ({
+        time: Number(d[0]) / 1000,
+        open: parseFloat(d[1]),
+        high: parseFloat(d[2]),
+        low: parseFloat(d[3]),
+        close: parseFloat(d[4]),
+        volume: parseFloat(d[5])
+      }));
+    } catch (error) {
+      console.error('Error fetching Bybit klines:', error);
+      return [];
+    }
+  },
+
+  // Bybit only serves the most recent 1000 trades
+  getTradesSince: async (symbol, startTime, endTime): Promise<MarketTrade[]> => {
+    try {
+      const result = await fetchResult<{ list: { execId: string; price: string; size: string; side: string; time: string }[] }>(
+        `/v5/market/recent-trade?category=linear&symbol=${symbol}&limit=1000`
+      );
+      // Newest first
+      return result.list
+        .reverse()
+        .filter(t => Number(t.time) >= startTime && (endTime === undefined || Number(t.time) < endTime))
+        .map(t => ({
+          id: t.execId,
+          symbol,
+          price: parseFloat(t.price),
+          quantity: parseFloat(t.size),
+          time: Number(t.time),
+          side: t.side === 'Buy' ? 'buy' : 'sell' // Taker side
+        }));
+    } catch (error) {
+      console.error('Error fetching Bybit trades:', error);
+      return [];
+    }
+  },
+
+  getOpenInterest: async (symbol) => {
+    const [latest] = await BybitAdapter.getOpenInterestHistory(symbol, '5m', 1);
+    return latest ?? null;
+  },
+
+  getOpenInterestHistory: async (symbol, period, limit) => {
+    try {
+      const result = await fetchResult<{ list: { openInterest: string; timestamp: string }[] }>(
+        `/v5/market/open-interest?category=linear&symbol=${symbol}&intervalTime=${OI_PERIODS[period] ?? period}&limit=${limit}`
+      );
+      // Newest first
+      return result.list.reverse().map(p => ({ time: Number(p.timestamp), openInterest: parseFloat(p.openInterest) }));
+    } catch (error) {
+      console.error('Error fetching Bybit open interest:', error);
+      return [];
+    }
+  },
+
+  // Bybit sends a snapshot on subscribe followed by deltas whose `u` increases by one.
+  // A skipped `u` means a lost delta, and resubscribing is the way to get a new snapshot.
+  subscribeToDepth: (symbol, callback, onStatus) => {
+    const topic = `orderbook.${BOOK_DEPTH}.${symbol}`;
+    const bids = new Map<string, string>(); // Price -> Qty
+    const asks = new Map<string, string>(); // Price -> Qty
+    let lastUpdateId: number | null = null; // null until a snapshot arrives
+    let status: BookSyncStatus | null = null;
+
+    const setStatus = (next: BookSyncStatus) => {
+      if (status === next) return;
+      status = next;
+      onStatus?.(next);
+    };
+
+    const applyLevels = (levels: string[][], book: Map<string, string>) => {
+      for (const [price, qty] of levels) {
+        if (parseFloat(qty) === 0) book.delete(price);
+        else book.set(price, qty);
+      }
+    };
+
+    const desync = () => {
+      lastUpdateId = null;
+      setStatus('desynced');
+    };
+
+    setStatus('syncing');
+    const subscription = subscribeWithSnapshot(topic, {
+      onMessage: (message) => {
+        const data = message.data;
+        if (message.type === 'snapshot') {
+          bids.clear();
+          asks.clear();
+        } else if (lastUpdateId === null) {
+          return; // Still waiting for a snapshot
+        } else if (data.u !== lastUpdateId + 1) {
+          console.warn(`Bybit depth gap for ${symbol}: expected u=${lastUpdateId + 1}, got ${data.u}`);
+          desync();
+          BybitStreamHub.resubscribe(topic);
+          return;
+        }
+
+        applyLevels(data.b, bids);
+        applyLevels(data.a, asks);
+        lastUpdateId = data.u;
+        setStatus('live');
+
+        callback({
+          symbol,
+          updateId: data.u,
+          bids: sortLevels(bids, true),
+          asks: sortLevels(asks, false)
+        });
+      },
+      // The hub resubscribes on reconnect, which delivers a fresh snapshot
+      onReconnect: desync
+    });
+
+    return subscription;
+  },
+
+  subscribeToTrades: (symbol, callback, onReset) =>
+    BybitStreamHub.subscribe(`publicTrade.${symbol}`, {
+      onMessage: (message) => {
+        for (const t of message.data) {
+          callback({
+            id: t.i,
+            symbol: t.s,
+            price: parseFloat(t.p),
+            quantity: parseFloat(t.v),
+            time: t.T,
+            side: t.S === 'Buy' ? 'buy' : 'sell' // Taker side
+          });
+        }
+      },
+      onReset
+    }),
+
+  subscribeToKlines: (symbol, interval, callback, onReset) =>
+    BybitStreamHub.subscribe(`kline.${toBybitInterval(interval)}.${symbol}`, {
+      onMessage: (message) => {
+        for (const k of message.data) {
+          callback({
+            time: k.start / 1000,
+            open: parseFloat(k.open),
+            high: parseFloat(k.high),
+            low: parseFloat(k.low),
+            close: parseFloat(k.close),
+            volume: parseFloat(k.volume)
+          });
+        }
+      },
+      onReset
+    }),
+
+  // Bybit only publishes liquidations per symbol
+  subscribeToLiquidations: (symbol, callback, onReset) => {
+    if (!symbol) return null;
+    return BybitStreamHub.subscribe(`allLiquidation.${symbol}`, {
+      onMessage: (message) => {
+        for (const l of message.data) {
+          const price = parseFloat(l.p);
+          const quantity = parseFloat(l.v);
+          callback({
+            symbol: l.s,
+            side: l.S === 'Buy' ? 'long' : 'short', // Bybit reports the liquidated position side
+            price,
+            quantity,
+            value: price * quantity,
+            time: l.T
+          });
+        }
+      },
+      onReset
+    });
+  },
+
+  // Bybit's tickers topic is per symbol only, so the scanner polls REST instead
+  subscribeToTickers: () => null,
+  subscribeToFundingRates: () => null
+};
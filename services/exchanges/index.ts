@@ -0,0 +1,12 @@
+import { ExchangeAdapter, ExchangeId } from '../../types';
+import { BinanceAdapter } from './binanceAdapter';
+import { BybitAdapter } from './bybitAdapter';
+
+export const EXCHANGES: Record<ExchangeId, ExchangeAdapter> = {
+  binance: BinanceAdapter,
+  bybit: BybitAdapter
+};
+
+export const DEFAULT_EXCHANGE: ExchangeId = 'binance';
+
+export const getExchange = (id: ExchangeId): ExchangeAdapter => EXCHANGES[id];
@@ -0,0 +1,67 @@
+import { Kline } from '../types';
+
+export interface IndicatorPoint {
+  time: number; // Candle time in seconds
+  value: number;
+}
+
+export interface BandPoint {
+  time: number;
+  upper: number;
+  middle: number;
+  lower: number;
+}
+
+// Exponential moving average of closes, seeded with the simple average of the first `period` closes
+export const calculateEma = (klines: Kline[], period: number): IndicatorPoint[] => {
+  if (klines.length < period) return [];
+  const k = 2 / (period + 1);
+  let value = klines.slice(0, period).reduce((sum, c) => sum + c.close, 0) / period;
+  const points: IndicatorPoint[] = [{ time: klines[period - 1].time, value }];
+  for (let i = period; i < klines.length; i++) {
+    value = klines[i].close * k + value * (1 - k);
+    points.push({ time: klines[i].time, value });
+  }
+  return points;
+};
+
+// Simple moving average of closes with bands `deviations` population standard deviations away
+export const calculateBollinger = (klines: Kline[], period: number, deviations: number): BandPoint[] => {
+  const points: BandPoint[] = [];
+  let sum = 0;
+  let sumSquares = 0;
+  klines.forEach((kline, i) => {
+    sum += kline.close;
+    sumSquares += kline.close * kline.close;
+    if (i >= period) {
+      const dropped = klines[i - period].close;
+      sum -= dropped;
+      sumSquares -= dropped * dropped;
+    }
+    if (i < period - 1) return;
+    const middle = sum / period;
+    const deviation = Math.sqrt(Math.max(0, sumSquares / period - middle * middle));
+    points.push({ time: kline.time, upper: middle + deviation * deviations, middle, lower: middle - deviation * deviations });
+  });
+  return points;
+};
+
+// Volume-weighted typical price, restarting at every UTC day. The first session is only
+// as accurate as the loaded history lets it be.
+export const calculateSessionVwap = (klines: Kline[]): IndicatorPoint[] => {
+  let session = -1;
+  let priceVolume = 0;
+  let volume = 0;
+  return klines.map(kline => {
+    const day = Math.floor(kline.time / 86400);
+    if (day !== session) {
+      session = day;
+      priceVolume = 0;
+      volume = 0;
+    }
+    const typical = (kline.high + kline.low + kline.close) / 3;
+    priceVolume += typical * kline.volume;
+    volume += kline.volume;
+    return { time: kline.time, value: volume > 0 ? priceVolume / volume : typical };
+  });
+};
@@ -0,0 +1,36 @@
+import { ExchangeAdapter, OpenInterestPoint, OpenInterestStats } from '../types';
+
+// 5m buckets cover the longest window (4h) plus the point it is measured from
+const HISTORY_PERIOD = '5m';
+const HISTORY_LIMIT = 49;
+
+const WINDOWS = { change5m: 5 * 60 * 1000, change1h: 60 * 60 * 1000, change4h: 4 * 60 * 60 * 1000 };
+
+// Percent change from the last point at or before `now - windowMs`
+const changeOver = (current: OpenInterestPoint, history: OpenInterestPoint[], windowMs: number): number | null => {
+  const cutoff = current.time - windowMs;
+  for (let i = history.length - 1; i >= 0; i--) {
+    if (history[i].time <= cutoff) {
+      const past = history[i].openInterest;
+      return past > 0 ? ((current.openInterest - past) / past) * 100 : null;
+    }
+  }
+  return null;
+};
+
+export const getOpenInterestStats = async (adapter: ExchangeAdapter, symbol: string): Promise<OpenInterestStats | null> => {
+  const [current, history] = await Promise.all([
+    adapter.getOpenInterest(symbol),
+    adapter.getOpenInterestHistory(symbol, HISTORY_PERIOD, HISTORY_LIMIT)
+  ]);
+  // Fall back to the newest history point when the live value is unavailable
+  const latest = current ?? history[history.length - 1];
+  if (!latest) return null;
+
+  return {
+    current: latest.openInterest,
+    change5m: changeOver(latest, history, WINDOWS.change5m),
+    change1h: changeOver(latest, history, WINDOWS.change1h),
+    change4h: changeOver(latest, history, WINDOWS.change4h)
+  };
+};
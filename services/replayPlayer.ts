@@ -0,0 +1,155 @@
+import { RecordedFrame, RecordedSession, RecordedSessionMeta } from '../types';
+import { StreamHub } from './streamHub';
+import { createListeners } from './store';
+
+export const REPLAY_SPEEDS = [1, 2, 5, 10, 25, 50];
+
+const TICK_INTERVAL = 50;
+
+// On seek, depth diffs recorded shortly before a snapshot are re-sent so the first
+// event that straddles it is not lost
+const SNAPSHOT_LOOKBACK = 10000;
+
+const SNAPSHOT_SUFFIX = '@depthSnapshot';
+const isDepthStream = (stream: string) => /@depth(@\d+ms)?$/.test(stream) || stream.endsWith(SNAPSHOT_SUFFIX);
+const getStreamSymbol = (stream: string) => stream.split('@')[0];
+
+export interface ReplayState {
+  session: RecordedSessionMeta | null;
+  isPlaying: boolean;
+  speed: number;
+  position: number; // ms since session start
+  duration: number; // ms
+}
+
+const listeners = createListeners();
+let state: ReplayState = { session: null, isPlaying: false, speed: 1, position: 0, duration: 0 };
+let frames: RecordedFrame[] = [];
+let startedAt = 0;
+let nextIndex = 0;
+let lastTickAt = 0;
+let tickTimer: ReturnType<typeof setInterval> | null = null;
+
+const setState = (patch: Partial<ReplayState>) => {
+  state = { ...state, ...patch };
+  listeners.notify();
+};
+
+// Index of the first frame recorded after `time`
+const findFrameIndex = (time: number) => {
+  let lo = 0;
+  let hi = frames.length;
+  while (lo < hi) {
+    const mid = (lo + hi) >> 1;
+    if (frames[mid].t <= time) lo = mid + 1;
+    else hi = mid;
+  }
+  return lo;
+};
+
+const emitFrame = (frame: RecordedFrame) => StreamHub.emit(frame.stream, frame.data);
+
+const stopTicking = () => {
+  if (tickTimer) clearInterval(tickTimer);
+  tickTimer = null;
+};
+
+const tick = () => {
+  const now = performance.now();
+  const position = Math.min(state.position + (now - lastTickAt) * state.speed, state.duration);
+  lastTickAt = now;
+
+  const until = startedAt + position;
+  while (nextIndex < frames.length && frames[nextIndex].t <= until) {
+    emitFrame(frames[nextIndex]);
+    nextIndex++;
+  }
+
+  const isFinished = nextIndex >= frames.length;
+  if (isFinished) stopTicking();
+  setState({ position, isPlaying: !isFinished });
+};
+
+// Rebuild listener state at `position` without playing out everything before it
+const seekTo = (position: number) => {
+  const target = startedAt + position;
+  const targetIndex = findFrameIndex(target);
+  StreamHub.resetAll();
+
+  // Order books need their latest snapshot plus every diff since; other streams simply resume
+  const depthSymbols = new Set((state.session?.streams ?? []).filter(isDepthStream).map(getStreamSymbol));
+  depthSymbols.forEach(symbol => {
+    const snapshotStream = `${symbol}${SNAPSHOT_SUFFIX}`;
+    let snapshotIndex = -1;
+    for (let i = targetIndex - 1; i >= 0; i--) {
+      if (frames[i].stream === snapshotStream) {
+        snapshotIndex = i;
+        break;
+      }
+    }
+    if (snapshotIndex < 0) return;
+
+    const fromIndex = findFrameIndex(frames[snapshotIndex].t - SNAPSHOT_LOOKBACK - 1);
+    for (let i = fromIndex; i < targetIndex; i++) {
+      const frame = frames[i];
+      if (isDepthStream(frame.stream) && getStreamSymbol(frame.stream) === symbol) emitFrame(frame);
+    }
+  });
+
+  nextIndex = targetIndex;
+  setState({ position });
+};
+
+// Feeds a recorded session through the stream hub in place of the live connection
+export const ReplayPlayer = {
+  load: (session: RecordedSession) => {
+    stopTicking();
+    frames = session.frames;
+    startedAt = frames.length ? frames[0].t : session.startedAt;
+    nextIndex = 0;
+    StreamHub.enterReplay();
+    setState({
+      session: { id: session.id, name: session.name, startedAt: session.startedAt, endedAt: session.endedAt, frameCount: session.frameCount, streams: session.streams },
+      isPlaying: false,
+      position: 0,
+      duration: frames.length ? frames[frames.length - 1].t - startedAt : 0
+    });
+  },
+
+  play: () => {
+    if (!state.session || tickTimer) return;
+    // Playing a finished session starts it over
+    if (nextIndex >= frames.length) seekTo(0);
+    lastTickAt = performance.now();
+    tickTimer = setInterval(tick, TICK_INTERVAL);
+    setState({ isPlaying: true });
+  },
+
+  pause: () => {
+    stopTicking();
+    setState({ isPlaying: false });
+  },
+
+  seek: (position: number) => {
+    if (!state.session) return;
+    lastTickAt = performance.now();
+    seekTo(Math.max(0, Math.min(position, state.duration)));
+  },
+
+  setSpeed: (speed: number) => {
+    setState({ speed });
+  },
+
+  // Leave replay and go back to live data
+  stop: () => {
+    stopTicking();
+    frames = [];
+    nextIndex = 0;
+    setState({ session: null, isPlaying: false, position: 0, duration: 0 });
+    StreamHub.exitReplay();
+  },
+
+  getState: (): ReplayState => state,
+
+  subscribe: listeners.subscribe
+};
@@ -0,0 +1,45 @@
+import { createListeners } from './store';
+
+const listeners = createListeners();
+
+// Latest ranking of every open scanner, oldest first. The most recently opened scanner owns the
+// published list; when it closes the one before it takes over, and with none open the list is empty.
+const owners: { id: number; symbols: string[] }[] = [];
+let nextOwnerId = 1;
+let snapshot: string[] = [];
+
+const update = () => {
+  const next = owners.length > 0 ? owners[owners.length - 1].symbols : [];
+  if (next === snapshot) return;
+  snapshot = next;
+  listeners.notify();
+};
+
+// Symbols the squeeze scanner currently ranks, for panels that follow its picks
+export const ScannerCandidates = {
+  // Called by a scanner as it opens; the returned id publishes and releases its list
+  register: (): number => {
+    const id = nextOwnerId++;
+    owners.push({ id, symbols: [] });
+    update();
+    return id;
+  },
+
+  publish: (ownerId: number, symbols: string[]) => {
+    const owner = owners.find(o => o.id === ownerId);
+    if (!owner || (symbols.length === owner.symbols.length && symbols.every((s, i) => s === owner.symbols[i]))) return;
+    owner.symbols = symbols;
+    update();
+  },
+
+  release: (ownerId: number) => {
+    const index = owners.findIndex(o => o.id === ownerId);
+    if (index < 0) return;
+    owners.splice(index, 1);
+    update();
+  },
+
+  getSnapshot: (): string[] => snapshot,
+
+  subscribe: listeners.subscribe
+};
@@ -0,0 +1,96 @@
+import { ScannerPreset } from '../types';
+import { createListeners, createId } from './store';
+
+const STORAGE_KEY = 'whalestation.scannerPresets';
+
+export const DEFAULT_PRESET_ID = 'default';
+
+// The scanner's original rules, as seen from the short side: negative funding (shorts paying longs) on a rising
+// price with > 10M USDT volume, ranked by funding depth, price change and OI build-up
+const DEFAULT_PRESET: ScannerPreset = {
+  id: DEFAULT_PRESET_ID,
+  name: 'Funding Squeeze',
+  filters: [
+    { field: 'fundingRate', operator: '<', value: -0.05 },
+    { field: 'priceChangePercent', operator: '>', value: 0 },
+    { field: 'quoteVolume', operator: '>', value: 10000000 }
+  ],
+  terms: [
+    { field: 'fundingRate', weight: 10, useAbsolute: true },
+    { field: 'priceChangePercent', weight: 1, useAbsolute: false },
+    { field: 'oiChange1h', weight: 0.5, useAbsolute: false },
+    { field: 'oiChange4h', weight: 0.25, useAbsolute: false }
+  ]
+};
+
+export interface ScannerPresetState {
+  presets: ScannerPreset[]; // The built-in default first, then user presets
+  activeId: string;
+}
+
+interface StoredPresets {
+  presets: ScannerPreset[];
+  activeId: string;
+}
+
+const listeners = createListeners();
+
+const load = (): ScannerPresetState => {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    if (raw) {
+      const stored: StoredPresets = JSON.parse(raw);
+      const presets = [DEFAULT_PRESET, ...stored.presets.filter(p => p.id !== DEFAULT_PRESET_ID)];
+      const activeId = presets.some(p => p.id === stored.activeId) ? stored.activeId : DEFAULT_PRESET_ID;
+      return { presets, activeId };
+    }
+  } catch (error) {
+    console.error('Error loading scanner presets:', error);
+  }
+  return { presets: [DEFAULT_PRESET], activeId: DEFAULT_PRESET_ID };
+};
+
+let state: ScannerPresetState = load();
+
+const setState = (next: ScannerPresetState) => {
+  state = next;
+  try {
+    const stored: StoredPresets = {
+      presets: state.presets.filter(p => p.id !== DEFAULT_PRESET_ID),
+      activeId: state.activeId
+    };
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(stored));
+  } catch (error) {
+    console.error('Error saving scanner presets:', error);
+  }
+  listeners.notify();
+};
+
+export const ScannerPresets = {
+  getState: () => state,
+
+  getActive: (): ScannerPreset => state.presets.find(p => p.id === state.activeId) ?? DEFAULT_PRESET,
+
+  setActive: (id: string) => {
+    if (id === state.activeId || !state.presets.some(p => p.id === id)) return;
+    setState({ ...state, activeId: id });
+  },
+
+  // Adds or replaces a preset and makes it active; the built-in default is read-only
+  save: (preset: ScannerPreset) => {
+    if (preset.id === DEFAULT_PRESET_ID) return;
+    const exists = state.presets.some(p => p.id === preset.id);
+    const presets = exists ? state.presets.map(p => (p.id === preset.id ? preset : p)) : [...state.presets, preset];
+    setState({ presets, activeId: preset.id });
+  },
+
+  remove: (id: string) => {
+    if (id === DEFAULT_PRESET_ID) return;
+    setState({
+      presets: state.presets.filter(p => p.id !== id),
+      activeId: state.activeId === id ? DEFAULT_PRESET_ID : state.activeId
+    });
+  },
+
+  subscribe: listeners.subscribe
+};
@@ -0,0 +1,63 @@
+import { ScannerField, ScannerFilterRule, ScannerOperator, ScannerScoreTerm, SqueezeCandidate } from '../types';
+
+interface ScannerFieldInfo {
+  label: string;
+  unit: string;
+  needsOpenInterest: boolean; // Only known for the top candidates, after the OI fetch
+  mirrored: boolean; // Sign flips for long squeezes, so one rule set covers both sides
+}
+
+export const SCANNER_FIELDS: Record<ScannerField, ScannerFieldInfo> = {
+  fundingRate: { label: 'Funding', unit: '%', needsOpenInterest: false, mirrored: true },
+  priceChangePercent: { label: '24h Chg', unit: '%', needsOpenInterest: false, mirrored: true },
+  quoteVolume: { label: '24h Volume', unit: 'USDT', needsOpenInterest: false, mirrored: false },
+  // Rising OI means the trapped side is still adding, whichever side that is
+  oiChange5m: { label: 'OI 5m', unit: '%', needsOpenInterest: true, mirrored: false },
+  oiChange1h: { label: 'OI 1h', unit: '%', needsOpenInterest: true, mirrored: false },
+  oiChange4h: { label: 'OI 4h', unit: '%', needsOpenInterest: true, mirrored: false }
+};
+
+export const SCANNER_OPERATORS: ScannerOperator[] = ['>', '>=', '<', '<='];
+
+const getRawFieldValue = (candidate: SqueezeCandidate, field: ScannerField): number | null => {
+  switch (field) {
+    case 'fundingRate': return candidate.fundingRate * 100;
+    case 'priceChangePercent': return candidate.priceChangePercent;
+    case 'quoteVolume': return candidate.volume;
+    case 'oiChange5m': return candidate.openInterest?.change5m ?? null;
+    case 'oiChange1h': return candidate.openInterest?.change1h ?? null;
+    case 'oiChange4h': return candidate.openInterest?.change4h ?? null;
+  }
+};
+
+// Field value in display units, as seen from the candidate's side; null when there is no data for it yet
+export const getFieldValue = (candidate: SqueezeCandidate, field: ScannerField): number | null => {
+  const value = getRawFieldValue(candidate, field);
+  if (value === null) return null;
+  return candidate.direction === 'bear' && SCANNER_FIELDS[field].mirrored ? -value : value;
+};
+
+const compare = (value: number, operator: ScannerOperator, target: number) => {
+  switch (operator) {
+    case '>': return value > target;
+    case '>=': return value >= target;
+    case '<': return value < target;
+    case '<=': return value <= target;
+  }
+};
+
+// Rules over OI fields are skipped until `withOpenInterest`; after that a missing value fails them
+export const passesFilters = (candidate: SqueezeCandidate, filters: ScannerFilterRule[], withOpenInterest: boolean) =>
+  filters.every(rule => {
+    if (SCANNER_FIELDS[rule.field].needsOpenInterest && !withOpenInterest) return true;
+    const value = getFieldValue(candidate, rule.field);
+    return value !== null && compare(value, rule.operator, rule.value);
+  });
+
+// Weighted sum of the terms; fields without data contribute nothing
+export const scoreCandidate = (candidate: SqueezeCandidate, terms: ScannerScoreTerm[]) =>
+  terms.reduce((score, term) => {
+    const value = getFieldValue(candidate, term.field);
+    if (value === null) return score;
+    return score + (term.useAbsolute ? Math.abs(value) : value) * term.weight;
+  }, 0);
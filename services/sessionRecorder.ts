@@ -0,0 +1,116 @@
+import { RecordedFrame, RecordedSessionMeta } from '../types';
+import { StreamHub } from './streamHub';
+import { SessionStore } from './sessionStore';
+import { createListeners, createId } from './store';
+
+// Depth frames dominate (~10/s per symbol); this caps a recording at a few hundred MB
+const MAX_RECORDED_FRAMES = 300000;
+
+// UI counters are refreshed at most this often
+const STATE_FLUSH_INTERVAL = 1000;
+
+const FILE_FORMAT_VERSION = 1;
+
+export interface RecorderState {
+  isRecording: boolean;
+  startedAt: number | null;
+  frameCount: number;
+}
+
+const listeners = createListeners();
+let state: RecorderState = { isRecording: false, startedAt: null, frameCount: 0 };
+let frames: RecordedFrame[] = [];
+let flushTimer: ReturnType<typeof setInterval> | null = null;
+
+const setState = (patch: Partial<RecorderState>) => {
+  state = { ...state, ...patch };
+  listeners.notify();
+};
+
+const getStreams = (recorded: RecordedFrame[]) => Array.from(new Set(recorded.map(f => f.stream))).sort();
+
+const stopRecording = async (): Promise<RecordedSessionMeta | null> => {
+  if (!state.isRecording || state.startedAt === null) return null;
+  StreamHub.setFrameTap(null);
+  if (flushTimer) clearInterval(flushTimer);
+  flushTimer = null;
+
+  const recorded = frames;
+  const startedAt = state.startedAt;
+  frames = [];
+  setState({ isRecording: false, startedAt: null, frameCount: 0 });
+  if (recorded.length === 0) return null;
+
+  const streams = getStreams(recorded);
+  // Market-wide streams (!ticker@arr...) belong to no symbol
+  const symbols = Array.from(new Set(streams.filter(s => !s.startsWith('!')).map(s => s.split('@')[0].toUpperCase())));
+  const meta: RecordedSessionMeta = {
+    id: createId(),
+    name: `${symbols.join(', ')} ${new Date(startedAt).toLocaleString()}`,
+    startedAt,
+    endedAt: recorded[recorded.length - 1].t,
+    frameCount: recorded.length,
+    streams
+  };
+  return (await SessionStore.save({ ...meta, frames: recorded })) ? meta : null;
+};
+
+// Captures every frame the stream hub dispatches, including REST depth snapshots
+export const SessionRecorder = {
+  start: () => {
+    if (state.isRecording || StreamHub.isReplaying()) return;
+    frames = [];
+    StreamHub.setFrameTap((stream, data) => {
+      frames.push({ t: Date.now(), stream, data });
+      if (frames.length >= MAX_RECORDED_FRAMES) {
+        console.warn(`Recording reached ${MAX_RECORDED_FRAMES} frames, stopping`);
+        stopRecording();
+      }
+    });
+    flushTimer = setInterval(() => setState({ frameCount: frames.length }), STATE_FLUSH_INTERVAL);
+    setState({ isRecording: true, startedAt: Date.now(), frameCount: 0 });
+  },
+
+  // Resolves with the saved session, or null when nothing was captured or saving failed
+  stop: stopRecording,
+
+  getState: (): RecorderState => state,
+
+  subscribe: listeners.subscribe,
+
+  // Offer a stored session as a JSON download
+  exportSession: async (id: string) => {
+    const session = await SessionStore.load(id);
+    if (!session) return;
+    const blob = new Blob([JSON.stringify({ version: FILE_FORMAT_VERSION, ...session })], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `whalestation-${session.name.replace(/[^\w-]+/g, '_')}.json`;
+    link.click();
+    URL.revokeObjectURL(url);
+  },
+
+  // Store a previously downloaded session file; resolves with its metadata
+  importFile: async (file: File): Promise<RecordedSessionMeta | null> => {
+    try {
+      const parsed = JSON.parse(await file.text());
+      if (parsed.version !== FILE_FORMAT_VERSION || !Array.isArray(parsed.frames) || parsed.frames.length === 0) {
+        throw new Error('Unrecognized session file');
+      }
+      const recorded: RecordedFrame[] = parsed.frames;
+      const meta: RecordedSessionMeta = {
+        id: createId(),
+        name: String(parsed.name ?? file.name),
+        startedAt: Number(parsed.startedAt ?? recorded[0].t),
+        endedAt: Number(parsed.endedAt ?? recorded[recorded.length - 1].t),
+        frameCount: recorded.length,
+        streams: getStreams(recorded)
+      };
+      return (await SessionStore.save({ ...meta, frames: recorded })) ? meta : null;
+    } catch (error) {
+      console.error('Error importing session:', error);
+      return null;
+    }
+  }
+};
@@ -0,0 +1,100 @@
+import { RecordedSession, RecordedSessionMeta } from '../types';
+
+const DB_NAME = 'whalestation';
+const DB_VERSION = 1;
+// Metadata and frames live in separate stores so listing sessions never loads frames
+const META_STORE = 'sessions';
+const FRAME_STORE = 'sessionFrames';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(META_STORE)) db.createObjectStore(META_STORE, { keyPath: 'id' });
+        if (!db.objectStoreNames.contains(FRAME_STORE)) db.createObjectStore(FRAME_STORE);
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const transactionDone = (tx: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+
+// IndexedDB persistence for recorded market sessions
+export const SessionStore = {
+  list: async (): Promise<RecordedSessionMeta[]> => {
+    try {
+      const db = await openDb();
+      const metas = await requestToPromise<RecordedSessionMeta[]>(
+        db.transaction(META_STORE).objectStore(META_STORE).getAll()
+      );
+      return metas.sort((a, b) => b.startedAt - a.startedAt);
+    } catch (error) {
+      console.error('Error listing sessions:', error);
+      return [];
+    }
+  },
+
+  load: async (id: string): Promise<RecordedSession | null> => {
+    try {
+      const db = await openDb();
+      const tx = db.transaction([META_STORE, FRAME_STORE]);
+      const [meta, frames] = await Promise.all([
+        requestToPromise<RecordedSessionMeta | undefined>(tx.objectStore(META_STORE).get(id)),
+        requestToPromise<RecordedSession['frames'] | undefined>(tx.objectStore(FRAME_STORE).get(id))
+      ]);
+      if (!meta || !frames) return null;
+      return { ...meta, frames };
+    } catch (error) {
+      console.error('Error loading session:', error);
+      return null;
+    }
+  },
+
+  save: async (session: RecordedSession): Promise<boolean> => {
+    try {
+      const db = await openDb();
+      const tx = db.transaction([META_STORE, FRAME_STORE], 'readwrite');
+      const { frames, ...meta } = session;
+      tx.objectStore(META_STORE).put(meta);
+      tx.objectStore(FRAME_STORE).put(frames, session.id);
+      await transactionDone(tx);
+      return true;
+    } catch (error) {
+      console.error('Error saving session:', error);
+      return false;
+    }
+  },
+
+  remove: async (id: string): Promise<void> => {
+    try {
+      const db = await openDb();
+      const tx = db.transaction([META_STORE, FRAME_STORE], 'readwrite');
+      tx.objectStore(META_STORE).delete(id);
+      tx.objectStore(FRAME_STORE).delete(id);
+      await transactionDone(tx);
+    } catch (error) {
+      console.error('Error deleting session:', error);
+    }
+  }
+};
@@ -0,0 +1,19 @@
+type Listener = () => void;
+
+// Change listeners of a module-level store. Stores hand out a stable state reference between
+// changes, so subscribe pairs with their getSnapshot/getState in useSyncExternalStore.
+export const createListeners = () => {
+  const listeners = new Set<Listener>();
+  return {
+    notify: () => listeners.forEach(l => l()),
+    subscribe: (listener: Listener) => {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    }
+  };
+};
+
+// Id for records kept in local storage: creation time plus a random suffix
+export const createId = () => `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
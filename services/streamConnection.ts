@@ -0,0 +1,168 @@
+import { StreamStatus } from '../types';
+
+// Reconnect backoff (ms)
+const RECONNECT_BASE_DELAY = 500;
+const RECONNECT_MAX_DELAY = 30000;
+
+// Browsers answer protocol-level pings on their own and never expose them, so liveness
+// is checked with an application-level request that the exchange always answers.
+// 20s also satisfies Bybit, which drops connections that stay silent for longer.
+const HEARTBEAT_INTERVAL = 20000;
+const HEARTBEAT_TIMEOUT = 10000;
+
+export type SubscriptionMethod = 'subscribe' | 'unsubscribe';
+
+// Venue-specific framing of control messages on a market data socket
+export interface StreamProtocol {
+  heartbeat: (id: number) => object;
+  request: (method: SubscriptionMethod, params: string[], id: number) => object;
+  // Control replies are not market data: returns the id they answer (null if none) or undefined for data frames
+  parseReply: (data: any) => number | null | undefined;
+}
+
+export interface StreamConnectionOptions {
+  url: () => string; // Evaluated on every (re)connect so the caller can change what it asks for
+  label: string; // Used in log messages
+  protocol: StreamProtocol;
+  onMessage: (data: any) => void;
+  onOpen?: (isReconnect: boolean) => void; // Consumers with local state (e.g. order books) resync here
+  onStatus?: (status: StreamStatus, reconnects: number) => void;
+}
+
+export interface StreamConnection {
+  close: () => void;
+}
+
+export interface ManagedStreamConnection extends StreamConnection {
+  // Sends a subscription change request; false when the socket is not open
+  request: (method: SubscriptionMethod, params: string[]) => boolean;
+}
+
+// Shared across connections so heartbeat replies can never be confused with other requests
+let nextRequestId = 1;
+
+// Exponential backoff with jitter so that many panels do not reconnect in lockstep
+const getReconnectDelay = (attempt: number) => {
+  const ceiling = Math.min(RECONNECT_BASE_DELAY * 2 ** attempt, RECONNECT_MAX_DELAY);
+  return ceiling / 2 + Math.random() * (ceiling / 2);
+};
+
+// Self-healing WebSocket: reconnects on errors, server-initiated closes (including the
+// 24h Binance disconnect) and silent stalls.
+export const openStreamConnection = ({ url, label, protocol, onMessage, onOpen, onStatus }: StreamConnectionOptions): ManagedStreamConnection => {
+  let ws: WebSocket | null = null;
+  let isClosed = false;
+  let hasConnected = false;
+  let attempt = 0;
+  let reconnects = 0;
+  let reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  let heartbeatTimer: ReturnType<typeof setInterval> | null = null;
+  let heartbeatDeadline: ReturnType<typeof setTimeout> | null = null;
+  let heartbeatId = 0;
+
+  const stopHeartbeat = () => {
+    if (heartbeatTimer) clearInterval(heartbeatTimer);
+    if (heartbeatDeadline) clearTimeout(heartbeatDeadline);
+    heartbeatTimer = null;
+    heartbeatDeadline = null;
+  };
+
+  const startHeartbeat = (socket: WebSocket) => {
+    stopHeartbeat();
+    heartbeatTimer = setInterval(() => {
+      if (socket.readyState !== WebSocket.OPEN || heartbeatDeadline) return;
+      heartbeatId = nextRequestId++;
+      socket.send(JSON.stringify(protocol.heartbeat(heartbeatId)));
+      heartbeatDeadline = setTimeout(() => {
+        console.warn(`Heartbeat timeout on ${label}, reconnecting`);
+        socket.close();
+      }, HEARTBEAT_TIMEOUT);
+    }, HEARTBEAT_INTERVAL);
+  };
+
+  const scheduleReconnect = () => {
+    if (isClosed || reconnectTimer) return;
+    onStatus?.('reconnecting', reconnects);
+    reconnectTimer = setTimeout(() => {
+      reconnectTimer = null;
+      reconnects++;
+      connect();
+    }, getReconnectDelay(attempt));
+    attempt++;
+  };
+
+  const connect = () => {
+    if (isClosed) return;
+    const socket = new WebSocket(url());
+    ws = socket;
+
+    socket.onopen = () => {
+      if (isClosed || ws !== socket) return;
+      onStatus?.('open', reconnects);
+      startHeartbeat(socket);
+      onOpen?.(hasConnected);
+      hasConnected = true;
+    };
+
+    socket.onmessage = (event) => {
+      if (isClosed || ws !== socket) return;
+      const data = JSON.parse(event.data);
+
+      // Request replies carry the request id and are not market data
+      const replyId = protocol.parseReply(data);
+      if (replyId !== undefined) {
+        if (replyId === heartbeatId && heartbeatDeadline) {
+          clearTimeout(heartbeatDeadline);
+          heartbeatDeadline = null;
+        }
+        return;
+      }
+
+      // A frame arriving means the connection is healthy again
+      attempt = 0;
+      onMessage(data);
+    };
+
+    socket.onerror = (error) => {
+      console.error(`WebSocket error for ${label}:`, error);
+    };
+
+    // Fires for errors, server-initiated closes and heartbeat timeouts alike
+    socket.onclose = () => {
+      if (ws !== socket) return;
+      stopHeartbeat();
+      ws = null;
+      scheduleReconnect();
+    };
+  };
+
+  // Skip the backoff when the browser reports the network is back
+  const handleOnline = () => {
+    if (isClosed || !reconnectTimer) return;
+    clearTimeout(reconnectTimer);
+    reconnectTimer = null;
+    reconnects++;
+    connect();
+  };
+  window.addEventListener('online', handleOnline);
+
+  onStatus?.('connecting', reconnects);
+  connect();
+
+  return {
+    request: (method, params) => {
+      if (!ws || ws.readyState !== WebSocket.OPEN) return false;
+      ws.send(JSON.stringify(protocol.request(method, params, nextRequestId++)));
+      return true;
+    },
+    close: () => {
+      isClosed = true;
+      window.removeEventListener('online', handleOnline);
+      if (reconnectTimer) clearTimeout(reconnectTimer);
+      stopHeartbeat();
+      if (ws && (ws.readyState === WebSocket.OPEN || ws.readyState === WebSocket.CONNECTING)) ws.close();
+      ws = null;
+      onStatus?.('closed', reconnects);
+    }
+  };
+};
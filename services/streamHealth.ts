@@ -0,0 +1,68 @@
+import { ExchangeId, StreamHealth } from '../types';
+import { createListeners } from './store';
+
+
+// Latest health per connection id. Ids rather than stream names are used as keys
+// because two panels may legitimately hold the same stream open at once.
+const healthById = new Map<number, StreamHealth>();
+const listeners = createListeners();
+let snapshot: StreamHealth[] = [];
+let nextId = 1;
+
+const notify = () => {
+  snapshot = Array.from(healthById.values());
+  listeners.notify();
+};
+
+export const StreamHealthRegistry = {
+  // Reserve an id for a new connection
+  register: (stream: string, exchange: ExchangeId, symbol: string | null): number => {
+    const id = nextId++;
+    healthById.set(id, { stream, exchange, symbol, status: 'connecting', latencyMs: null, lastMessageAt: null, reconnects: 0 });
+    notify();
+    return id;
+  },
+
+  update: (id: number, patch: Partial<StreamHealth>) => {
+    const current = healthById.get(id);
+    if (!current) return;
+    healthById.set(id, { ...current, ...patch });
+    notify();
+  },
+
+  remove: (id: number) => {
+    if (healthById.delete(id)) notify();
+  },
+
+  getSnapshot: (): StreamHealth[] => snapshot,
+
+  subscribe: listeners.subscribe
+};
+
+export interface StreamHealthSummary {
+  status: 'live' | 'degraded' | 'down' | 'idle' | 'replay';
+  openCount: number;
+  totalCount: number;
+  latencyMs: number | null; // Worst smoothed latency across open streams
+}
+
+// Collapse several streams into one indicator: live only when every stream is open
+export const summarizeStreamHealth = (streams: StreamHealth[]): StreamHealthSummary => {
+  const open = streams.filter(s => s.status === 'open');
+  const latencies = open.map(s => s.latencyMs).filter((l): l is number => l !== null);
+
+  let status: StreamHealthSummary['status'] = 'idle';
+  if (streams.length > 0) {
+    if (streams.every(s => s.status === 'replay')) status = 'replay';
+    else if (open.length === streams.length) status = 'live';
+    else if (open.length > 0) status = 'degraded';
+    else status = 'down';
+  }
+
+  return {
+    status,
+    openCount: open.length,
+    totalCount: streams.length,
+    latencyMs: latencies.length ? Math.max(...latencies) : null
+  };
+};
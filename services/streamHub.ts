@@ -0,0 +1,298 @@
+import { ExchangeId, StreamStatus } from '../types';
+import { openStreamConnection, ManagedStreamConnection, StreamConnection, StreamProtocol } from './streamConnection';
+import { StreamHealthRegistry } from './streamHealth';
+
+// Subscription changes are batched so effect re-runs (unsubscribe + subscribe of the same
+// stream) cancel out, and so we stay under Binance's 10 requests/sec per connection.
+const FLUSH_DELAY = 100;
+
+// Health metrics are pushed to the registry at most this often to keep re-renders cheap
+const HEALTH_FLUSH_INTERVAL = 1000;
+
+// Weight of the newest sample in the smoothed latency
+const LATENCY_SMOOTHING = 0.2;
+
+export interface StreamListener {
+  onMessage: (data: any) => void;
+  onReconnect?: () => void; // Frames were missed while the connection was down
+  onReset?: () => void; // Stream history restarted: replay started, stopped or seeked
+}
+
+// Receives every frame the hub dispatches, e.g. the session recorder
+export type FrameTap = (stream: string, data: any) => void;
+
+// Everything that differs between venues' combined-stream sockets
+export interface StreamHubConfig {
+  exchange: ExchangeId;
+  protocol: StreamProtocol;
+  buildUrl: (streams: string[]) => string;
+  // True when the URL itself subscribes the streams; otherwise they are requested on open
+  streamsInUrl: boolean;
+  maxStreams: number; // Venue limit per connection, only warned about
+  // Unwrap a socket message into its stream and payload; null for messages to ignore
+  parseMessage: (message: any) => { stream: string; data: any } | null;
+  getEventTime: (data: any) => number | undefined;
+  getStreamSymbol: (stream: string) => string | null; // Upper-case symbol, for per-panel health
+  localStreamSuffixes?: string[]; // App-internal streams that must never reach the venue
+}
+
+export interface StreamHub {
+  subscribe: (stream: string, listener: StreamListener) => StreamConnection;
+  resubscribe: (stream: string) => void;
+  emit: FrameTap;
+  setFrameTap: (next: FrameTap | null) => void;
+  getTapId: () => number;
+  tap: FrameTap;
+  resetAll: () => void;
+  isReplaying: () => boolean;
+  enterReplay: () => void;
+  exitReplay: () => void;
+}
+
+interface StreamEntry {
+  listeners: Set<StreamListener>;
+  healthId: number;
+  latencyMs: number | null;
+  lastMessageAt: number | null;
+  isHealthDirty: boolean;
+}
+
+// One physical combined-stream connection per venue, shared by every panel. Subscriptions
+// are reference counted per stream name, so any number of listeners cost one stream.
+export const createStreamHub = (config: StreamHubConfig): StreamHub => {
+  const streams = new Map<string, StreamEntry>();
+  let connection: ManagedStreamConnection | null = null;
+  let serverStreams = new Set<string>(); // What the open socket is currently subscribed to
+  let connectionStatus: StreamStatus = 'closed';
+  let connectionReconnects = 0;
+  let flushTimer: ReturnType<typeof setTimeout> | null = null;
+  let healthTimer: ReturnType<typeof setInterval> | null = null;
+  let frameTap: FrameTap | null = null;
+  let tapId = 0; // Changes whenever a new tap is installed
+  let isReplaying = false;
+
+  const localSuffixes = config.localStreamSuffixes ?? [];
+  const isLocalStream = (stream: string) => localSuffixes.some(suffix => stream.endsWith(suffix));
+
+  const getServerStreams = () => Array.from(streams.keys()).filter(s => !isLocalStream(s));
+
+  const buildUrl = () => {
+    const wanted = getServerStreams();
+    // When the URL carries the full stream set a reconnect restores everything in one go
+    serverStreams = new Set(config.streamsInUrl ? wanted : []);
+    return config.buildUrl(wanted);
+  };
+
+  // Replayed frames are never fed back into a recording
+  const tap = (stream: string, data: any) => {
+    if (!isReplaying) frameTap?.(stream, data);
+  };
+
+  const dispatch = (stream: string, data: any) => {
+    tap(stream, data);
+    const entry = streams.get(stream);
+    if (!entry) return;
+
+    const now = Date.now();
+    entry.lastMessageAt = now;
+    // Event times of replayed frames are in the past, so latency is meaningless there
+    const eventTime = config.getEventTime(data);
+    if (!isReplaying && typeof eventTime === 'number') {
+      const sample = Math.max(0, now - eventTime);
+      entry.latencyMs = entry.latencyMs === null ? sample : entry.latencyMs + (sample - entry.latencyMs) * LATENCY_SMOOTHING;
+    }
+    entry.isHealthDirty = true;
+
+    entry.listeners.forEach(l => l.onMessage(data));
+  };
+
+  const handleMessage = (message: any) => {
+    if (isReplaying) return;
+    const parsed = config.parseMessage(message);
+    if (parsed) dispatch(parsed.stream, parsed.data);
+  };
+
+  const handleStatus = (status: StreamStatus, reconnects: number) => {
+    connectionStatus = status;
+    connectionReconnects = reconnects;
+    streams.forEach(entry => {
+      if (entry.healthId) StreamHealthRegistry.update(entry.healthId, { status, reconnects });
+    });
+  };
+
+  const resetAll = () => {
+    streams.forEach(entry => entry.listeners.forEach(l => l.onReset?.()));
+  };
+
+  const handleOpen = (isReconnect: boolean) => {
+    // Apply changes made while the socket was connecting
+    flush();
+    if (isReconnect) {
+      streams.forEach(entry => entry.listeners.forEach(l => l.onReconnect?.()));
+    }
+  };
+
+  const flushHealth = () => {
+    streams.forEach(entry => {
+      if (!entry.isHealthDirty || !entry.healthId) return;
+      entry.isHealthDirty = false;
+      StreamHealthRegistry.update(entry.healthId, { latencyMs: entry.latencyMs, lastMessageAt: entry.lastMessageAt });
+    });
+  };
+
+  const openConnection = () => {
+    connection = openStreamConnection({
+      url: buildUrl,
+      label: `${config.exchange} stream hub`,
+      protocol: config.protocol,
+      onMessage: handleMessage,
+      onOpen: handleOpen,
+      onStatus: handleStatus
+    });
+    healthTimer = setInterval(flushHealth, HEALTH_FLUSH_INTERVAL);
+  };
+
+  const closeConnection = () => {
+    connection?.close();
+    connection = null;
+    serverStreams = new Set();
+    if (healthTimer) clearInterval(healthTimer);
+    healthTimer = null;
+  };
+
+  // Reconcile the server-side subscription set with the streams that have listeners
+  const flush = () => {
+    flushTimer = null;
+
+    // Replay feeds listeners directly; the live socket stays down until it ends
+    if (isReplaying) return;
+
+    const wanted = getServerStreams();
+    if (wanted.length === 0) {
+      closeConnection();
+      return;
+    }
+    if (wanted.length > config.maxStreams) {
+      console.warn(`${config.exchange} stream hub holds ${wanted.length} streams, the venue allows ${config.maxStreams} per connection`);
+    }
+    if (!connection) {
+      openConnection();
+      return;
+    }
+
+    const toAdd = wanted.filter(s => !serverStreams.has(s));
+    const toRemove = Array.from(serverStreams).filter(s => !streams.has(s));
+
+    // If the socket is not open yet, onOpen calls flush again
+    if (toAdd.length && connection.request('subscribe', toAdd)) {
+      toAdd.forEach(s => serverStreams.add(s));
+    }
+    if (toRemove.length && connection.request('unsubscribe', toRemove)) {
+      toRemove.forEach(s => serverStreams.delete(s));
+    }
+  };
+
+  const scheduleFlush = () => {
+    if (!flushTimer) flushTimer = setTimeout(flush, FLUSH_DELAY);
+  };
+
+  return {
+    subscribe: (stream, listener) => {
+      let entry = streams.get(stream);
+      if (!entry) {
+        // Local streams have no connection of their own to report on (id 0 = untracked)
+        const healthId = isLocalStream(stream) ? 0 : StreamHealthRegistry.register(stream, config.exchange, config.getStreamSymbol(stream));
+        entry = { listeners: new Set(), healthId, latencyMs: null, lastMessageAt: null, isHealthDirty: false };
+        streams.set(stream, entry);
+        if (healthId && (connection || isReplaying)) {
+          StreamHealthRegistry.update(healthId, { status: connectionStatus, reconnects: connectionReconnects });
+        }
+        scheduleFlush();
+      }
+      // Wrap so the same callback can be registered twice and removed independently
+      const handle: StreamListener = { ...listener };
+      entry.listeners.add(handle);
+
+      let isClosed = false;
+      return {
+        close: () => {
+          if (isClosed) return;
+          isClosed = true;
+          const current = streams.get(stream);
+          if (!current) return;
+          current.listeners.delete(handle);
+          if (current.listeners.size === 0) {
+            streams.delete(stream);
+            if (current.healthId) StreamHealthRegistry.remove(current.healthId);
+            scheduleFlush();
+          }
+        }
+      };
+    },
+
+    // Ask the venue to restart a stream, e.g. to receive a fresh order book snapshot.
+    // Requests are handled in order, so the subscribe lands after the unsubscribe.
+    resubscribe: (stream) => {
+      if (!connection || !serverStreams.has(stream)) return;
+      if (connection.request('unsubscribe', [stream])) connection.request('subscribe', [stream]);
+    },
+
+    // Deliver a frame that did not come from the socket (replayed or locally produced)
+    emit: dispatch,
+
+    setFrameTap: (next) => {
+      frameTap = next;
+      if (next) tapId++;
+    },
+
+    // Non-zero while a tap is installed; stateful listeners use it to emit their state once per tap
+    getTapId: () => (frameTap ? tapId : 0),
+
+    // Hand a frame that listeners already consumed (e.g. a REST snapshot) to the tap only
+    tap,
+
+    // Ask every listener to rebuild its state, e.g. after a replay seek
+    resetAll,
+
+    isReplaying: () => isReplaying,
+
+    // Drop the live socket and hand the listeners over to a replay source
+    enterReplay: () => {
+      if (isReplaying) return;
+      isReplaying = true;
+      closeConnection();
+      handleStatus('replay', 0);
+      resetAll();
+    },
+
+    exitReplay: () => {
+      if (!isReplaying) return;
+      isReplaying = false;
+      handleStatus('connecting', 0);
+      flush();
+      resetAll();
+    }
+  };
+};
+
+const BINANCE_PROTOCOL: StreamProtocol = {
+  heartbeat: (id) => ({ method: 'LIST_SUBSCRIPTIONS', id }),
+  request: (method, params, id) => ({ method: method.toUpperCase(), params, id }),
+  parseReply: (data) => (data && data.id !== undefined && data.result !== undefined ? data.id : undefined)
+};
+
+// Binance USDT-M combined streams. Sessions are recorded from and replayed into this hub.
+export const StreamHub = createStreamHub({
+  exchange: 'binance',
+  protocol: BINANCE_PROTOCOL,
+  buildUrl: (streams) => `wss://fstream.binance.com/stream?streams=${streams.join('/')}`,
+  streamsInUrl: true,
+  maxStreams: 200,
+  // Combined stream payload: { stream, data }
+  parseMessage: (message) => (message && message.stream ? { stream: message.stream, data: message.data } : null),
+  getEventTime: (data) => data?.E,
+  // Market-wide streams such as !ticker@arr start with '!' and belong to no symbol
+  getStreamSymbol: (stream) => (stream.startsWith('!') ? null : stream.split('@')[0].toUpperCase()),
+  // REST depth snapshots travel to the recorder (and back out of replays) on their own stream
+  localStreamSuffixes: ['@depthSnapshot']
+});
@@ -0,0 +1,78 @@
+import { ExchangeId, SymbolInfo } from '../types';
+import { getExchange } from './exchanges';
+import { createListeners } from './store';
+
+type SymbolMap = Map<string, SymbolInfo>;
+
+// Symbol lists per venue, loaded once per session
+const loads = new Map<ExchangeId, Promise<SymbolMap>>();
+// Lists that have finished loading, for lookups while rendering
+const loaded = new Map<ExchangeId, SymbolMap>();
+const listeners = createListeners();
+
+const load = (exchange: ExchangeId) => {
+  let pending = loads.get(exchange);
+  if (!pending) {
+    pending = getExchange(exchange).getSymbols().then(symbols => {
+      const map: SymbolMap = new Map(symbols.map(s => [s.symbol, s]));
+      if (symbols.length === 0) {
+        // An empty list means the request failed; allow the next caller to retry
+        loads.delete(exchange);
+      } else {
+        loaded.set(exchange, map);
+        listeners.notify();
+      }
+      return map;
+    });
+    loads.set(exchange, pending);
+  }
+  return pending;
+};
+
+// Number of decimals needed to print multiples of `step` exactly, e.g. 0.25 -> 2, 10 -> 0
+export const getStepDecimals = (step: number) => {
+  let decimals = 0;
+  while (decimals < 10 && Math.abs(Math.round(step * 10 ** decimals) - step * 10 ** decimals) > 1e-9) decimals++;
+  return decimals;
+};
+
+// Five significant digits, used until the symbol's increments are known
+const guessDecimals = (value: number) => {
+  const magnitude = Math.floor(Math.log10(Math.abs(value) || 1));
+  return Math.min(8, Math.max(0, 4 - magnitude));
+};
+
+// Prices at the symbol's tick precision, e.g. 67012.1 for BTCUSDT and 0.0001234 for small caps
+export const formatPrice = (price: number, info?: SymbolInfo | null) =>
+  price.toFixed(info?.tickSize ? getStepDecimals(info.tickSize) : guessDecimals(price));
+
+// Quantities at the symbol's lot step precision
+export const formatQuantity = (quantity: number, info?: SymbolInfo | null) =>
+  quantity.toFixed(info?.stepSize ? getStepDecimals(info.stepSize) : guessDecimals(quantity));
+
+export const SymbolRegistry = {
+  load,
+
+  getSymbol: async (exchange: ExchangeId, symbol: string): Promise<SymbolInfo | null> => {
+    const symbols = await load(exchange);
+    return symbols.get(symbol.toUpperCase()) ?? null;
+  },
+
+  // Synchronous lookup; undefined until the venue's list has loaded
+  getLoaded: (exchange: ExchangeId): SymbolMap | undefined => loaded.get(exchange),
+
+  // Returns a message explaining why the symbol cannot be opened, or null if it can.
+  // Symbols are accepted unverified when the list itself could not be loaded.
+  validate: async (exchange: ExchangeId, symbol: string): Promise<string | null> => {
+    const upper = symbol.trim().toUpperCase();
+    if (!upper) return 'Enter a symbol, e.g. BTCUSDT';
+    const symbols = await load(exchange);
+    if (symbols.size === 0) return null;
+    const info = symbols.get(upper);
+    if (!info) return `${upper} is not listed on ${getExchange(exchange).name} futures`;
+    if (!info.isTrading) return `${upper} is not trading (${info.status})`;
+    return null;
+  },
+
+  subscribe: listeners.subscribe
+};
@@ -0,0 +1,150 @@
+import { MarketDepth, MarketTrade, TradeCluster, TradeClusterKind, TradeSide } from '../types';
+
+// Same-side trades closer together than this belong to one sweep (ms)
+const SWEEP_GAP = 50;
+// Fewer trades than this are not a sweep; single prints already show up on their own
+const SWEEP_MIN_TRADES = 3;
+
+// Separate fills at one price before it counts as an iceberg; the fills must also add up
+// to more than the book ever showed there, or it was just a visible order being eaten
+const ICEBERG_MIN_FILLS = 5;
+// A price that has not traded for this long is forgotten (ms)
+const ICEBERG_IDLE = 10000;
+
+interface Accumulator {
+  side: TradeSide;
+  startTime: number;
+  endTime: number;
+  tradeCount: number;
+  quantity: number;
+  notional: number;
+  lowPrice: number;
+  highPrice: number;
+  prices: Set<number>;
+  tradeIds: string[]; // Sweeps only
+  shownQuantity: number; // Icebergs: most the book has shown at the price since the first fill
+  receivedAt: number; // Local time of the last trade, since trade times come from the exchange clock
+  id?: string;
+}
+
+export interface TradeClusterer {
+  // Icebergs are only reported against a known book
+  updateBook: (depth: MarketDepth) => void;
+  // Returns clusters that completed or changed with this trade
+  addTrade: (trade: MarketTrade) => TradeCluster[];
+  // Closes a sweep that has gone quiet; call periodically
+  flush: () => TradeCluster[];
+  reset: () => void;
+}
+
+const startAccumulator = (trade: MarketTrade): Accumulator => ({
+  side: trade.side,
+  startTime: trade.time,
+  endTime: trade.time,
+  tradeCount: 1,
+  quantity: trade.quantity,
+  notional: trade.price * trade.quantity,
+  lowPrice: trade.price,
+  highPrice: trade.price,
+  prices: new Set([trade.price]),
+  tradeIds: [],
+  shownQuantity: 0,
+  receivedAt: Date.now()
+});
+
+const accumulate = (acc: Accumulator, trade: MarketTrade) => {
+  acc.endTime = trade.time;
+  acc.tradeCount++;
+  acc.quantity += trade.quantity;
+  acc.notional += trade.price * trade.quantity;
+  acc.lowPrice = Math.min(acc.lowPrice, trade.price);
+  acc.highPrice = Math.max(acc.highPrice, trade.price);
+  acc.prices.add(trade.price);
+  acc.receivedAt = Date.now();
+};
+
+// Groups one symbol's trades into sweeps and icebergs
+export const createTradeClusterer = (symbol: string): TradeClusterer => {
+  let sweep: Accumulator | null = null;
+  const icebergs = new Map<string, Accumulator>(); // `${side}:${price}` -> fills at that price
+  let book: MarketDepth | null = null;
+  let nextId = 1;
+
+  // Resting quantity an aggressor on this side trades against: buys lift asks, sells hit bids
+  const getShownQuantity = (side: TradeSide, price: number) => {
+    if (!book) return 0;
+    const levels = side === 'buy' ? book.asks : book.bids;
+    return levels.find(level => level.price === price)?.quantity ?? 0;
+  };
+
+  const toCluster = (kind: TradeClusterKind, acc: Accumulator, id: string): TradeCluster => ({
+    id,
+    kind,
+    symbol,
+    side: acc.side,
+    startTime: acc.startTime,
+    endTime: acc.endTime,
+    tradeCount: acc.tradeCount,
+    quantity: acc.quantity,
+    notional: acc.notional,
+    averagePrice: acc.notional / acc.quantity,
+    lowPrice: acc.lowPrice,
+    highPrice: acc.highPrice,
+    levels: acc.prices.size,
+    tradeIds: acc.tradeIds
+  });
+
+  const closeSweep = (): TradeCluster[] => {
+    const done = sweep;
+    sweep = null;
+    return done && done.tradeCount >= SWEEP_MIN_TRADES ? [toCluster('sweep', done, `sweep-${symbol}-${nextId++}`)] : [];
+  };
+
+  return {
+    updateBook: (depth) => {
+      book = depth;
+      icebergs.forEach(acc => {
+        acc.shownQuantity = Math.max(acc.shownQuantity, getShownQuantity(acc.side, acc.lowPrice));
+      });
+    },
+
+    addTrade: (trade) => {
+      const results: TradeCluster[] = [];
+
+      if (sweep && (sweep.side !== trade.side || trade.time - sweep.endTime > SWEEP_GAP)) {
+        results.push(...closeSweep());
+      }
+      if (sweep) accumulate(sweep, trade);
+      else sweep = startAccumulator(trade);
+      sweep.tradeIds.push(trade.id);
+
+      // A print beyond a price means nothing is resting there any more: buys lift asks, sells hit bids
+      icebergs.forEach((acc, key) => {
+        const isThrough = acc.side === 'buy' ? trade.price > acc.highPrice : trade.price < acc.lowPrice;
+        if (isThrough || trade.time - acc.endTime > ICEBERG_IDLE) icebergs.delete(key);
+      });
+
+      const key = `${trade.side}:${trade.price}`;
+      let iceberg = icebergs.get(key);
+      if (iceberg) accumulate(iceberg, trade);
+      else {
+        iceberg = startAccumulator(trade);
+        icebergs.set(key, iceberg);
+      }
+      iceberg.shownQuantity = Math.max(iceberg.shownQuantity, getShownQuantity(trade.side, trade.price));
+      if (book && iceberg.tradeCount >= ICEBERG_MIN_FILLS && iceberg.quantity > iceberg.shownQuantity) {
+        iceberg.id = iceberg.id ?? `iceberg-${symbol}-${nextId++}`;
+        results.push(toCluster('iceberg', iceberg, iceberg.id));
+      }
+
+      return results;
+    },
+
+    flush: () => (sweep && Date.now() - sweep.receivedAt > SWEEP_GAP ? closeSweep() : []),
+
+    reset: () => {
+      sweep = null;
+      icebergs.clear();
+    }
+  };
+};
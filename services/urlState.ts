@@ -0,0 +1,35 @@
+import { createListeners } from './store';
+
+const listeners = createListeners();
+
+let params = new URLSearchParams(window.location.search);
+
+// Back and forward restore whatever the URL held at that point
+window.addEventListener('popstate', () => {
+  params = new URLSearchParams(window.location.search);
+  listeners.notify();
+});
+
+// View state mirrored in the query string, so a refresh or a shared link opens the same view
+export const UrlState = {
+  get: (key: string): string | null => params.get(key),
+
+  // Null removes a key. Pushes a history entry unless `replace`, so only navigation-worthy
+  // changes should push.
+  set: (patch: Record<string, string | null>, replace = false) => {
+    const next = new URLSearchParams(params);
+    Object.entries(patch).forEach(([key, value]) => {
+      if (value === null) next.delete(key);
+      else next.set(key, value);
+    });
+    if (next.toString() === params.toString()) return;
+    params = next;
+    const query = params.toString();
+    const url = `${window.location.pathname}${query ? `?${query}` : ''}${window.location.hash}`;
+    if (replace) window.history.replaceState(null, '', url);
+    else window.history.pushState(null, '', url);
+    listeners.notify();
+  },
+
+  subscribe: listeners.subscribe
+};
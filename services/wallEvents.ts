@@ -0,0 +1,34 @@
+import { WallEvent } from '../types';
+import { createListeners } from './store';
+
+// Recent events kept for panels that mount later
+const MAX_EVENTS = 200;
+
+type EventListener = (event: WallEvent) => void;
+
+const listeners = createListeners();
+const eventListeners = new Set<EventListener>();
+let snapshot: WallEvent[] = []; // Newest first
+let nextId = 1;
+
+// Wall lifecycle events from every open order book, for any panel to display or react to
+export const WallEvents = {
+  emit: (event: Omit<WallEvent, 'id'>) => {
+    const full: WallEvent = { ...event, id: nextId++ };
+    snapshot = [full, ...snapshot].slice(0, MAX_EVENTS);
+    eventListeners.forEach(l => l(full));
+    listeners.notify();
+  },
+
+  getSnapshot: (): WallEvent[] => snapshot,
+
+  subscribe: listeners.subscribe,
+
+  // Called once per event, for panels that act on events rather than list them
+  onEvent: (listener: EventListener) => {
+    eventListeners.add(listener);
+    return () => {
+      eventListeners.delete(listener);
+    };
+  }
+};
@@ -0,0 +1,248 @@
+import { ExchangeId, MarketDepth, MarketSubscription, MarketTrade, PriceLevel, TrackedWall, WallEventType, WallSide } from '../types';
+import { WallEvents } from './wallEvents';
+import { getExchange } from './exchanges';
+
+// Same window around the mid price as the depth chart (fraction)
+const WALL_RANGE = 0.015;
+
+// A level is a wall at this many times the median resting size in the window
+const WALL_SIZE_MULTIPLE = 5;
+
+// Walls stop being tracked below this share of the wall threshold, so levels
+// hovering around the threshold do not flap in and out
+const WALL_EXIT_SHARE = 0.5;
+
+// A level must stand this long before it is reported, which filters out flickering quotes (ms)
+const MIN_WALL_AGE = 2000;
+
+// Size changes of this fraction since the last report emit a 'resized' event
+const RESIZE_STEP = 0.3;
+
+// A wall is 'absorbed' when trades account for at least this share of what disappeared
+const ABSORBED_SHARE = 0.5;
+
+// Pulled walls within this distance of the touch price count as spoofs (fraction)
+const SPOOF_DISTANCE = 0.0025;
+
+// A pulled wall re-posted within this distance and size tolerance counts as 'moved'
+const MOVE_DISTANCE = 0.005;
+const MOVE_SIZE_TOLERANCE = 0.3;
+
+interface WallState extends TrackedWall {
+  reportedSize: number; // Size at the last event, for 'resized'
+}
+
+interface PendingWall {
+  firstSeen: number;
+}
+
+interface WallTracker {
+  updateBook: (depth: MarketDepth) => void;
+  addTrade: (trade: MarketTrade) => void;
+  reset: () => void; // Forget every wall without emitting, e.g. while the book resyncs
+}
+
+const getKey = (side: WallSide, price: number) => `${side}:${price}`;
+
+const median = (values: number[]) => {
+  if (values.length === 0) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.floor(sorted.length / 2)];
+};
+
+const toSnapshot = ({ reportedSize, ...wall }: WallState): TrackedWall => ({ ...wall });
+
+// Follows walls in one symbol's book across updates and classifies how each one ends
+const createWallTracker = (symbol: string, exchange: ExchangeId): WallTracker => {
+  const walls = new Map<string, WallState>();
+  const pending = new Map<string, PendingWall>();
+  let nextWallId = 1;
+  let bestBid = 0;
+  let bestAsk = 0;
+
+  const getDistance = (wall: WallState) => {
+    const touch = wall.side === 'bid' ? bestBid : bestAsk;
+    return touch > 0 ? Math.abs(touch - wall.price) / wall.price : 0;
+  };
+
+  const emit = (type: WallEventType, wall: WallState, previousPrice?: number) => {
+    WallEvents.emit({ type, time: Date.now(), wall: toSnapshot(wall), distance: getDistance(wall), previousPrice });
+  };
+
+  const reset = () => {
+    walls.clear();
+    pending.clear();
+  };
+
+  return {
+    updateBook: (depth) => {
+      if (!depth.bids.length || !depth.asks.length) return;
+      bestBid = depth.bids[0].price;
+      bestAsk = depth.asks[0].price;
+      const mid = (bestBid + bestAsk) / 2;
+      const now = Date.now();
+
+      const inWindow = (levels: PriceLevel[]) => {
+        const result = new Map<number, number>(); // Price -> Qty
+        for (const level of levels) {
+          if (Math.abs(level.price - mid) > mid * WALL_RANGE) break;
+          result.set(level.price, level.quantity);
+        }
+        return result;
+      };
+      const books: Record<WallSide, Map<number, number>> = { bid: inWindow(depth.bids), ask: inWindow(depth.asks) };
+      const threshold = median([...books.bid.values(), ...books.ask.values()]) * WALL_SIZE_MULTIPLE;
+      if (threshold <= 0) return;
+
+      // Walls already being followed
+      const ended: WallState[] = [];
+      walls.forEach((wall, key) => {
+        if (Math.abs(wall.price - mid) > mid * WALL_RANGE) {
+          walls.delete(key); // Price left it behind; nothing can be said about it
+          return;
+        }
+        const size = books[wall.side].get(wall.price) ?? 0;
+        if (size < threshold * WALL_EXIT_SHARE) {
+          walls.delete(key);
+          wall.size = size;
+          ended.push(wall);
+          return;
+        }
+        wall.size = size;
+        wall.peakSize = Math.max(wall.peakSize, size);
+        if (Math.abs(size - wall.reportedSize) >= wall.reportedSize * RESIZE_STEP) {
+          emit('resized', wall);
+          wall.reportedSize = size;
+        }
+      });
+
+      // Levels that could be new walls
+      const candidates: { side: WallSide; price: number; size: number }[] = [];
+      const seen = new Set<string>();
+      (['bid', 'ask'] as WallSide[]).forEach(side => {
+        books[side].forEach((size, price) => {
+          if (size < threshold) return;
+          const key = getKey(side, price);
+          seen.add(key);
+          if (!walls.has(key)) candidates.push({ side, price, size });
+        });
+      });
+
+      // Classify the walls that ended in this update
+      ended.forEach(wall => {
+        // Fills over the wall's whole life count, since walls are often eaten over several updates
+        const removed = wall.peakSize - wall.size;
+        if (wall.filledVolume > 0 && wall.filledVolume >= removed * ABSORBED_SHARE) {
+          emit('absorbed', wall);
+          return;
+        }
+
+        const moveTo = candidates.find(c =>
+          c.side === wall.side &&
+          Math.abs(c.price - wall.price) <= wall.price * MOVE_DISTANCE &&
+          Math.abs(c.size - wall.reportedSize) <= wall.reportedSize * MOVE_SIZE_TOLERANCE
+        );
+        if (moveTo) {
+          // Keep following the same wall at its new price
+          const previousPrice = wall.price;
+          const key = getKey(moveTo.side, moveTo.price);
+          wall.price = moveTo.price;
+          wall.size = moveTo.size;
+          wall.peakSize = Math.max(wall.peakSize, moveTo.size);
+          wall.reportedSize = moveTo.size;
+          walls.set(key, wall);
+          pending.delete(key);
+          candidates.splice(candidates.indexOf(moveTo), 1);
+          emit('moved', wall, previousPrice);
+          return;
+        }
+
+        emit(getDistance(wall) <= SPOOF_DISTANCE ? 'spoofed' : 'pulled', wall);
+      });
+
+      // New walls must stand for a while before they are reported
+      candidates.forEach(({ side, price, size }) => {
+        const key = getKey(side, price);
+        const entry = pending.get(key);
+        if (!entry) {
+          pending.set(key, { firstSeen: now });
+          return;
+        }
+        if (now - entry.firstSeen < MIN_WALL_AGE) return;
+        pending.delete(key);
+        const wall: WallState = {
+          id: `${symbol}-${nextWallId++}`,
+          symbol,
+          exchange,
+          side,
+          price,
+          size,
+          initialSize: size,
+          peakSize: size,
+          filledVolume: 0,
+          appearedAt: entry.firstSeen,
+          reportedSize: size
+        };
+        walls.set(key, wall);
+        emit('appeared', wall);
+      });
+      pending.forEach((_, key) => {
+        if (!seen.has(key)) pending.delete(key);
+      });
+    },
+
+    // Sells fill bids and buys fill asks
+    addTrade: (trade) => {
+      const side: WallSide = trade.side === 'sell' ? 'bid' : 'ask';
+      const wall = walls.get(getKey(side, trade.price));
+      if (wall) wall.filledVolume += trade.quantity;
+    },
+
+    reset
+  };
+};
+
+interface SharedTracker {
+  refCount: number;
+  close: () => void;
+}
+
+const sharedTrackers = new Map<string, SharedTracker>(); // `${exchange}:${symbol}` -> tracker fed by its own streams
+
+// Tracks walls in a symbol's book until the subscription is closed. Every panel on the same
+// symbol and venue shares one tracker, so each wall event is emitted once.
+export const watchWalls = (symbol: string, exchange: ExchangeId): MarketSubscription => {
+  const key = `${exchange}:${symbol}`;
+  let shared = sharedTrackers.get(key);
+  if (!shared) {
+    const tracker = createWallTracker(symbol, exchange);
+    const adapter = getExchange(exchange);
+    const tradeSubscription = adapter.subscribeToTrades(symbol, tracker.addTrade, tracker.reset);
+    const depthSubscription = adapter.subscribeToDepth(symbol, tracker.updateBook, (status) => {
+      // Walls cannot be followed across a gap in the book
+      if (status !== 'live') tracker.reset();
+    });
+    shared = {
+      refCount: 0,
+      close: () => {
+        tradeSubscription.close();
+        depthSubscription.close();
+      }
+    };
+    sharedTrackers.set(key, shared);
+  }
+  const entry = shared;
+  entry.refCount++;
+
+  let isClosed = false;
+  return {
+    close: () => {
+      if (isClosed) return;
+      isClosed = true;
+      entry.refCount--;
+      if (entry.refCount > 0) return;
+      entry.close();
+      sharedTrackers.delete(key);
+    }
+  };
+};
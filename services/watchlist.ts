@@ -0,0 +1,100 @@
+import { Watchlist } from '../types';
+import { createListeners, createId } from './store';
+
+const STORAGE_KEY = 'whalestation.watchlists';
+
+const DEFAULT_WATCHLIST: Watchlist = {
+  id: 'default',
+  name: 'Majors',
+  symbols: ['BTCUSDT', 'ETHUSDT', 'SOLUSDT', 'BNBUSDT', 'XRPUSDT', 'DOGEUSDT']
+};
+
+export interface WatchlistState {
+  lists: Watchlist[]; // Never empty
+  activeId: string;
+}
+
+const listeners = createListeners();
+
+const load = (): WatchlistState => {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    if (raw) {
+      const stored: WatchlistState = JSON.parse(raw);
+      if (stored.lists.length > 0) {
+        const activeId = stored.lists.some(l => l.id === stored.activeId) ? stored.activeId : stored.lists[0].id;
+        return { lists: stored.lists, activeId };
+      }
+    }
+  } catch (error) {
+    console.error('Error loading watchlists:', error);
+  }
+  return { lists: [DEFAULT_WATCHLIST], activeId: DEFAULT_WATCHLIST.id };
+};
+
+let state: WatchlistState = load();
+
+const setState = (next: WatchlistState) => {
+  state = next;
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(state));
+  } catch (error) {
+    console.error('Error saving watchlists:', error);
+  }
+  listeners.notify();
+};
+
+const updateList = (id: string, update: (list: Watchlist) => Watchlist) => {
+  setState({ ...state, lists: state.lists.map(l => (l.id === id ? update(l) : l)) });
+};
+
+// Named symbol lists, persisted across sessions
+export const Watchlists = {
+  getState: (): WatchlistState => state,
+
+  getActive: (): Watchlist => state.lists.find(l => l.id === state.activeId) ?? state.lists[0],
+
+  setActive: (id: string) => {
+    if (id === state.activeId || !state.lists.some(l => l.id === id)) return;
+    setState({ ...state, activeId: id });
+  },
+
+  // Creates an empty list and makes it active
+  create: (name: string): string => {
+    const id = createId();
+    setState({ lists: [...state.lists, { id, name, symbols: [] }], activeId: id });
+    return id;
+  },
+
+  rename: (id: string, name: string) => {
+    updateList(id, list => ({ ...list, name }));
+  },
+
+  // The last list is kept so there is always one to show
+  remove: (id: string) => {
+    if (state.lists.length <= 1) return;
+    const lists = state.lists.filter(l => l.id !== id);
+    setState({ lists, activeId: state.activeId === id ? lists[0].id : state.activeId });
+  },
+
+  addSymbol: (id: string, symbol: string) => {
+    const upper = symbol.toUpperCase();
+    updateList(id, list => (list.symbols.includes(upper) ? list : { ...list, symbols: [...list.symbols, upper] }));
+  },
+
+  removeSymbol: (id: string, symbol: string) => {
+    updateList(id, list => ({ ...list, symbols: list.symbols.filter(s => s !== symbol) }));
+  },
+
+  // Moves a symbol to another position in the list
+  moveSymbol: (id: string, symbol: string, toIndex: number) => {
+    updateList(id, list => {
+      const symbols = list.symbols.filter(s => s !== symbol);
+      if (symbols.length === list.symbols.length) return list;
+      symbols.splice(Math.max(0, Math.min(toIndex, symbols.length)), 0, symbol);
+      return { ...list, symbols };
+    });
+  },
+
+  subscribe: listeners.subscribe
+};
@@ -0,0 +1,69 @@
+import { WhaleThresholds } from '../types';
+
+// Most recent trades the percentiles are taken over
+const SAMPLE_SIZE = 2000;
+// Below this many trades the percentiles are not trusted and 24h volume is used alone
+const MIN_SAMPLES = 200;
+
+const WHALE_PERCENTILE = 0.99;
+const NUCLEAR_PERCENTILE = 0.999;
+
+// A whale print is at least this share of 24h quote volume: $10B a day -> $50K
+const WHALE_VOLUME_SHARE = 0.000005;
+// A nuclear print is at least this many whale thresholds
+const NUCLEAR_MULTIPLE = 10;
+// Lowest threshold the adaptive mode will pick (USDT)
+const MIN_WHALE_THRESHOLD = 1000;
+
+export interface TradeSizeStats {
+  add: (value: number) => void;
+  getPercentile: (p: number) => number | null; // null until a trade has been seen
+  getCount: () => number;
+  reset: () => void;
+}
+
+// Rolling window of trade notionals
+export const createTradeSizeStats = (): TradeSizeStats => {
+  const values = new Float64Array(SAMPLE_SIZE);
+  let count = 0; // Trades seen, capped at SAMPLE_SIZE
+  let next = 0; // Ring buffer write position
+
+  return {
+    add: (value) => {
+      values[next] = value;
+      next = (next + 1) % SAMPLE_SIZE;
+      count = Math.min(count + 1, SAMPLE_SIZE);
+    },
+
+    getPercentile: (p) => {
+      if (count === 0) return null;
+      const sorted = values.slice(0, count).sort();
+      return sorted[Math.min(count - 1, Math.floor(p * count))];
+    },
+
+    getCount: () => count,
+
+    reset: () => {
+      count = 0;
+      next = 0;
+    }
+  };
+};
+
+// Two significant digits, so the thresholds do not jitter with every trade
+const roundThreshold = (value: number) => {
+  const magnitude = 10 ** Math.max(0, Math.floor(Math.log10(value)) - 1);
+  return Math.round(value / magnitude) * magnitude;
+};
+
+// Whale and nuclear thresholds from the symbol's own trade sizes and 24h volume;
+// null when neither is known yet
+export const getAdaptiveThresholds = (stats: TradeSizeStats, quoteVolume: number | null): WhaleThresholds | null => {
+  const volumeFloor = quoteVolume ? quoteVolume * WHALE_VOLUME_SHARE : 0;
+  const hasSamples = stats.getCount() >= MIN_SAMPLES;
+  if (!hasSamples && !volumeFloor) return null;
+
+  const whale = Math.max(MIN_WHALE_THRESHOLD, volumeFloor, hasSamples ? stats.getPercentile(WHALE_PERCENTILE) ?? 0 : 0);
+  const nuclear = Math.max(whale * NUCLEAR_MULTIPLE, hasSamples ? stats.getPercentile(NUCLEAR_PERCENTILE) ?? 0 : 0);
+  return { whale: roundThreshold(whale), nuclear: roundThreshold(nuclear) };
+};
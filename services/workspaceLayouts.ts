@@ -0,0 +1,143 @@
+import { WorkspaceLayout, WorkspacePanel, WorkspacePanelType } from '../types';
+import { createListeners, createId } from './store';
+
+const STORAGE_KEY = 'whalestation.workspaces';
+
+export const WORKSPACE_COLUMNS = 12;
+
+// Size a newly added panel gets, in grid cells
+export const DEFAULT_PANEL_SIZES: Record<WorkspacePanelType, { w: number; h: number }> = {
+  watchlist: { w: 3, h: 6 },
+  scanner: { w: 4, h: 8 },
+  depth: { w: 5, h: 10 },
+  heatmap: { w: 6, h: 10 },
+  whales: { w: 4, h: 14 },
+  tape: { w: 6, h: 8 },
+  liquidations: { w: 3, h: 6 },
+  funding: { w: 6, h: 10 },
+  alerts: { w: 6, h: 8 }
+};
+
+// The original dashboard: watchlist, scanner and liquidations on the left, walls in the middle, whales on the right
+const createDefaultPanels = (): WorkspacePanel[] => [
+  { id: createId(), type: 'watchlist', x: 0, y: 0, w: 3, h: 5, symbol: null },
+  { id: createId(), type: 'scanner', x: 0, y: 5, w: 3, h: 7, symbol: null },
+  { id: createId(), type: 'liquidations', x: 0, y: 12, w: 3, h: 5, symbol: null },
+  { id: createId(), type: 'depth', x: 3, y: 0, w: 5, h: 17, symbol: null },
+  { id: createId(), type: 'whales', x: 8, y: 0, w: 4, h: 17, symbol: null }
+];
+
+export interface WorkspaceState {
+  layouts: WorkspaceLayout[]; // Never empty
+  activeId: string;
+}
+
+const listeners = createListeners();
+
+const createDefaultState = (): WorkspaceState => {
+  const layout = { id: createId(), name: 'Dashboard', panels: createDefaultPanels() };
+  return { layouts: [layout], activeId: layout.id };
+};
+
+const load = (): WorkspaceState => {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    if (raw) {
+      const stored: WorkspaceState = JSON.parse(raw);
+      if (stored.layouts.length > 0) {
+        const activeId = stored.layouts.some(l => l.id === stored.activeId) ? stored.activeId : stored.layouts[0].id;
+        return { layouts: stored.layouts, activeId };
+      }
+    }
+  } catch (error) {
+    console.error('Error loading workspaces:', error);
+  }
+  return createDefaultState();
+};
+
+let state: WorkspaceState = load();
+
+const setState = (next: WorkspaceState) => {
+  state = next;
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(state));
+  } catch (error) {
+    console.error('Error saving workspaces:', error);
+  }
+  listeners.notify();
+};
+
+const updatePanels = (layoutId: string, update: (panels: WorkspacePanel[]) => WorkspacePanel[]) => {
+  setState({ ...state, layouts: state.layouts.map(l => (l.id === layoutId ? { ...l, panels: update(l.panels) } : l)) });
+};
+
+type CellRect = Pick<WorkspacePanel, 'x' | 'y' | 'w' | 'h'>;
+
+export const overlaps = (a: CellRect, b: CellRect) =>
+  a.x < b.x + b.w && b.x < a.x + a.w && a.y < b.y + b.h && b.y < a.y + a.h;
+
+// Top-most, then left-most spot where a panel of this size fits without covering another
+export const findFreeSpot = (panels: WorkspacePanel[], w: number, h: number): { x: number; y: number } => {
+  const width = Math.min(w, WORKSPACE_COLUMNS);
+  for (let y = 0; ; y++) {
+    for (let x = 0; x + width <= WORKSPACE_COLUMNS; x++) {
+      if (!panels.some(p => overlaps({ x, y, w: width, h }, p))) return { x, y };
+    }
+  }
+};
+
+// Named panel layouts, persisted across sessions. Edits apply to a layout as they are made.
+export const Workspaces = {
+  getState: (): WorkspaceState => state,
+
+  setActive: (id: string) => {
+    if (id === state.activeId || !state.layouts.some(l => l.id === id)) return;
+    setState({ ...state, activeId: id });
+  },
+
+  // New layout, copied from an existing one or else the default, made active
+  create: (name: string, copyFrom?: WorkspaceLayout): string => {
+    const id = createId();
+    const panels = copyFrom ? copyFrom.panels.map(p => ({ ...p, id: createId() })) : createDefaultPanels();
+    setState({ layouts: [...state.layouts, { id, name, panels }], activeId: id });
+    return id;
+  },
+
+  rename: (id: string, name: string) => {
+    setState({ ...state, layouts: state.layouts.map(l => (l.id === id ? { ...l, name } : l)) });
+  },
+
+  // The last layout is kept so there is always one to show
+  remove: (id: string) => {
+    if (state.layouts.length <= 1) return;
+    const layouts = state.layouts.filter(l => l.id !== id);
+    setState({ layouts, activeId: state.activeId === id ? layouts[0].id : state.activeId });
+  },
+
+  addPanel: (layoutId: string, type: WorkspacePanelType, symbol: string | null = null) => {
+    updatePanels(layoutId, panels => {
+      const { w, h } = DEFAULT_PANEL_SIZES[type];
+      return [...panels, { id: createId(), type, ...findFreeSpot(panels, w, h), w, h, symbol }];
+    });
+  },
+
+  // Replaces a panel's placement or symbol link
+  updatePanel: (layoutId: string, panel: WorkspacePanel) => {
+    updatePanels(layoutId, panels => panels.map(p => (p.id === panel.id ? panel : p)));
+  },
+
+  // Copy of a panel in the next free spot, pinned to the given symbol
+  duplicatePanel: (layoutId: string, panelId: string, symbol: string) => {
+    updatePanels(layoutId, panels => {
+      const source = panels.find(p => p.id === panelId);
+      if (!source) return panels;
+      return [...panels, { ...source, id: createId(), ...findFreeSpot(panels, source.w, source.h), symbol }];
+    });
+  },
+
+  removePanel: (layoutId: string, panelId: string) => {
+    updatePanels(layoutId, panels => panels.filter(p => p.id !== panelId));
+  },
+
+  subscribe: listeners.subscribe
+};
@@ -1,3 +1,180 @@
+// Venues with a market data adapter
+export type ExchangeId = 'binance' | 'bybit';
+
+// Venue-neutral market data, produced by the exchange adapters
+export interface MarketTicker {
+  symbol: string;
+  lastPrice: number;
+  priceChangePercent: number; // 24h, in percent
+  volume: number; // 24h base volume
+  quoteVolume: number; // 24h volume in USDT
+}
+
+export interface FundingInfo {
+  symbol: string;
+  fundingRate: number; // Current period rate as a fraction
+  nextFundingTime: number; // Unix ms
+  markPrice: number;
+  interestRate?: number; // Fraction per period, where the venue publishes it
+}
+
+export interface FundingRatePoint {
+  time: number; // Unix ms of the funding event
+  rate: number; // Fraction
+}
+
+export type ContractType = 'perpetual' | 'delivery';
+
+export interface SymbolInfo {
+  symbol: string;
+  status: string; // Venue-specific, e.g. TRADING on Binance, Trading on Bybit
+  isTrading: boolean; // Normalized from status
+  tickSize: number; // Price increment
+  stepSize: number; // Quantity increment
+  contractType: ContractType;
+  onboardDate: number; // Listing time (ms)
+}
+
+export type TradeSide = 'buy' | 'sell';
+
+export interface MarketTrade {
+  id: string;
+  symbol: string;
+  price: number;
+  quantity: number;
+  time: number; // Unix ms
+  side: TradeSide; // Aggressor side
+}
+
+// Named list of symbols, kept in local storage
+export interface Watchlist {
+  id: string;
+  name: string;
+  symbols: string[]; // Upper-case, in the user's order
+}
+
+export type WorkspacePanelType = 'watchlist' | 'scanner' | 'depth' | 'heatmap' | 'whales' | 'tape' | 'liquidations' | 'funding' | 'alerts';
+
+// One panel of a workspace layout, placed on a 12-column grid in cell units
+export interface WorkspacePanel {
+  id: string;
+  type: WorkspacePanelType;
+  x: number;
+  y: number;
+  w: number;
+  h: number;
+  symbol: string | null; // Pinned symbol; null follows the global symbol
+}
+
+// Named arrangement of panels, kept in local storage
+export interface WorkspaceLayout {
+  id: string;
+  name: string;
+  panels: WorkspacePanel[];
+}
+
+// Trade notional (USDT) a print needs to be listed as a whale, and to be flagged nuclear
+export interface WhaleThresholds {
+  whale: number;
+  nuclear: number;
+}
+
+// sweep: one side's trades arriving back to back, typically a large order walking the book
+// iceberg: repeated fills at one price beyond what the book showed there, where a hidden order keeps refilling
+export type TradeClusterKind = 'sweep' | 'iceberg';
+
+export interface TradeCluster {
+  id: string; // Stable while an iceberg keeps filling
+  kind: TradeClusterKind;
+  symbol: string;
+  side: TradeSide; // Aggressor side
+  startTime: number;
+  endTime: number;
+  tradeCount: number;
+  quantity: number;
+  notional: number; // USDT
+  averagePrice: number;
+  lowPrice: number;
+  highPrice: number;
+  levels: number; // Distinct prices traded
+  tradeIds: string[]; // Sweeps only: the prints it is made of
+}
+
+export interface PriceLevel {
+  price: number;
+  quantity: number;
+}
+
+export interface MarketDepth {
+  symbol: string;
+  updateId: number;
+  bids: PriceLevel[]; // High to low
+  asks: PriceLevel[]; // Low to high
+}
+
+export interface OpenInterestPoint {
+  time: number; // Unix ms
+  openInterest: number; // In contracts (base asset)
+}
+
+// Percent change of open interest over trailing windows; null when history is too short
+export interface OpenInterestStats {
+  current: number;
+  change5m: number | null;
+  change1h: number | null;
+  change4h: number | null;
+}
+
+// Forced liquidation order, normalized
+export interface Liquidation {
+  symbol: string;
+  side: 'long' | 'short'; // Position that was liquidated
+  price: number; // Average fill price when known
+  quantity: number;
+  value: number; // Price * Quantity in USDT
+  time: number; // Unix ms
+}
+
+export interface MarketSubscription {
+  close: () => void;
+}
+
+// Normalized market data interface every venue adapter implements
+export interface ExchangeAdapter {
+  id: ExchangeId;
+  name: string;
+  getSymbols: () => Promise<SymbolInfo[]>;
+  getTickers: () => Promise<MarketTicker[]>;
+  getFundingRates: () => Promise<FundingInfo[]>;
+  // Binance-style intervals: 1m, 1h, 1d... Oldest first, ending at endTime (ms) when given, else the latest
+  getKlines: (symbol: string, interval: string, limit: number, endTime?: number) => Promise<Kline[]>;
+  // Oldest first, ending before endTime (ms) when given, else the latest. Venues cap how far back
+  // trades are served, so the result may start after startTime.
+  getTradesSince: (symbol: string, startTime: number, endTime?: number) => Promise<MarketTrade[]>;
+  subscribeToDepth: (symbol: string, callback: (depth: MarketDepth) => void, onStatus?: (status: BookSyncStatus) => void) => MarketSubscription;
+  subscribeToTrades: (symbol: string, callback: (trade: MarketTrade) => void, onReset?: () => void) => MarketSubscription;
+  subscribeToKlines: (symbol: string, interval: string, callback: (kline: Kline) => void, onReset?: () => void) => MarketSubscription;
+  getOpenInterest: (symbol: string) => Promise<OpenInterestPoint | null>;
+  getOpenInterestHistory: (symbol: string, period: string, limit: number) => Promise<OpenInterestPoint[]>; // Oldest first
+  // Pass null for every symbol; returns null when the venue has no market-wide feed
+  subscribeToLiquidations: (symbol: string | null, callback: (liquidation: Liquidation) => void, onReset?: () => void) => MarketSubscription | null;
+  getFundingHistory: (symbol: string, limit: number) => Promise<FundingRatePoint[]>; // Oldest first
+  // Estimated rate for the running period, updated with the mark price
+  subscribeToFunding: (symbol: string, callback: (funding: FundingInfo) => void, onReset?: () => void) => MarketSubscription;
+  // Market-wide streams; each call delivers only the symbols that changed. Null when the venue has none.
+  subscribeToTickers: (callback: (tickers: MarketTicker[]) => void, onReset?: () => void) => MarketSubscription | null;
+  subscribeToFundingRates: (callback: (rates: FundingInfo[]) => void, onReset?: () => void) => MarketSubscription | null;
+}
+
+export interface ExchangeInfoSymbol {
+  symbol: string;
+  status: string;
+  contractType: string;
+  onboardDate: number;
+  quoteAsset: string;
+  filters: { filterType: string; tickSize?: string; stepSize?: string }[];
+}
+
 export interface Ticker24h {
   symbol: string;
   priceChange: string;
@@ -9,11 +186,19 @@ export interface Ticker24h {
 
 export interface PremiumIndex {
   symbol: string;
+  markPrice: string;
   lastFundingRate: string;
   nextFundingTime: number;
   interestRate: string;
 }
 
+export interface FundingRateHist {
+  symbol: string;
+  fundingRate: string;
+  fundingTime: number;
+  markPrice: string;
+}
+
 export interface AggTrade {
   e: string; // Event type
   E: number; // Event time
@@ -27,6 +212,47 @@ export interface AggTrade {
   m: boolean; // Is the buyer the market maker? (True = Sell, False = Buy)
 }
 
+// REST /fapi/v1/aggTrades rows carry the trade fields without the event envelope
+export type HistoricalAggTrade = Omit<AggTrade, 'e' | 'E' | 's'>;
+
+// Element of the !ticker@arr payload
+export interface TickerEvent {
+  e: string; // Event type
+  E: number; // Event time
+  s: string; // Symbol
+  p: string; // Price change
+  P: string; // Price change percent
+  c: string; // Last price
+  v: string; // Base asset volume
+  q: string; // Quote asset volume
+}
+
+// Element of the !markPrice@arr payload
+export interface MarkPriceEvent {
+  e: string; // Event type
+  E: number; // Event time
+  s: string; // Symbol
+  p: string; // Mark price
+  i: string; // Index price
+  r: string; // Funding rate
+  T: number; // Next funding time
+}
+
+// Event from <symbol>@forceOrder / !forceOrder@arr
+export interface ForceOrderEvent {
+  e: string; // Event type
+  E: number; // Event time
+  o: {
+    s: string; // Symbol
+    S: 'BUY' | 'SELL'; // Order side: SELL liquidates a long
+    q: string; // Original quantity
+    p: string; // Price
+    ap: string; // Average price
+    z: string; // Accumulated filled quantity
+    T: number; // Trade time
+  };
+}
+
 export interface OrderBookEntry {
   price: number;
   quantity: number;
@@ -39,6 +265,29 @@ export interface OrderBook {
   asks: string[][]; // [Price, Quantity]
 }
 
+export interface OpenInterestHist {
+  symbol: string;
+  sumOpenInterest: string; // Contracts
+  sumOpenInterestValue: string; // USDT
+  timestamp: number;
+}
+
+// Diff event from <symbol>@depth stream
+export interface DepthUpdateEvent {
+  e: string; // Event type
+  E: number; // Event time
+  T: number; // Transaction time
+  s: string; // Symbol
+  U: number; // First update ID in event
+  u: number; // Final update ID in event
+  pu: number; // Final update ID in previous event
+  b: string[][]; // Bids to update [Price, Quantity]
+  a: string[][]; // Asks to update [Price, Quantity]
+}
+
+// Local order book state: syncing = building from snapshot, live = in sequence, desynced = gap detected, resyncing
+export type BookSyncStatus = 'syncing' | 'live' | 'desynced';
+
 export interface ProcessedDepth {
   bids: OrderBookEntry[];
   asks: OrderBookEntry[];
@@ -54,15 +303,111 @@ export interface WallAnalysis {
   verdict: 'BULLISH' | 'BEARISH' | 'NEUTRAL';
 }
 
+export type WallSide = 'bid' | 'ask';
+
+// appeared: a level grew into a wall and stood long enough to count
+// resized: its size changed markedly while standing
+// absorbed: it was taken out by trades at its price
+// spoofed: it was pulled without fills as price approached
+// pulled: it was cancelled while price was still far away
+// moved: it was cancelled and re-posted nearby with a similar size
+export type WallEventType = 'appeared' | 'resized' | 'absorbed' | 'spoofed' | 'pulled' | 'moved';
+
+export interface TrackedWall {
+  id: string;
+  symbol: string;
+  exchange: ExchangeId;
+  side: WallSide;
+  price: number;
+  size: number; // Current resting quantity
+  initialSize: number;
+  peakSize: number;
+  filledVolume: number; // Traded against the wall while it stood
+  appearedAt: number;
+}
+
+export interface WallEvent {
+  id: number;
+  type: WallEventType;
+  time: number;
+  wall: TrackedWall; // As it was when the event happened
+  distance: number; // From the touch price, as a fraction of the wall price
+  previousPrice?: number; // Set for 'moved'
+}
+
+// trade: a single print's notional (USDT) against the value
+// funding: the live funding rate (%) against the value, on one symbol or all of them
+// wall: the largest resting level on one side within maxDistance of the mid price
+// price: the last trade price crossing the value
+export type AlertRuleType = 'trade' | 'funding' | 'wall' | 'price';
+
+export type AlertDirection = 'above' | 'below';
+
+export interface AlertRule {
+  id: string;
+  type: AlertRuleType;
+  exchange: ExchangeId;
+  symbol: string | null; // null matches every symbol; funding rules only
+  direction: AlertDirection; // Price rules: the crossing direction
+  value: number; // Trade: USDT, funding: percent, wall: contracts, price: price level
+  side?: WallSide; // Wall rules
+  maxDistance?: number; // Wall rules: percent from the mid price
+  cooldownSeconds: number; // Minimum time between firings of the rule for one symbol
+  enabled: boolean;
+  notify: boolean; // Desktop notification
+  sound: boolean;
+}
+
+export interface AlertFiring {
+  id: number;
+  ruleId: string;
+  exchange: ExchangeId;
+  symbol: string;
+  message: string;
+  time: number;
+}
+
+// bull: shorts trapped by negative funding on a rising price (short squeeze)
+// bear: longs trapped by positive funding on a falling price (long squeeze)
+export type SqueezeDirection = 'bull' | 'bear';
+
 export interface SqueezeCandidate {
   symbol: string;
+  direction: SqueezeDirection;
   price: number;
   priceChangePercent: number;
   fundingRate: number;
   volume: number;
+  openInterest?: OpenInterestStats; // Fetched after the initial scan, top candidates only
   score: number; // Calculated score for sorting
 }
 
+// Candidate fields the scanner rules can use. Values are in display units:
+// funding and changes in percent, volume in quote currency (USDT). Rules are
+// written for short squeezes and mirrored for long squeezes.
+export type ScannerField = 'fundingRate' | 'priceChangePercent' | 'quoteVolume' | 'oiChange5m' | 'oiChange1h' | 'oiChange4h';
+
+export type ScannerOperator = '>' | '>=' | '<' | '<=';
+
+export interface ScannerFilterRule {
+  field: ScannerField;
+  operator: ScannerOperator;
+  value: number;
+}
+
+export interface ScannerScoreTerm {
+  field: ScannerField;
+  weight: number;
+  useAbsolute: boolean; // Score the magnitude, e.g. how negative funding is
+}
+
+export interface ScannerPreset {
+  id: string;
+  name: string;
+  filters: ScannerFilterRule[]; // All must pass
+  terms: ScannerScoreTerm[]; // Summed into SqueezeCandidate.score
+}
+
 export interface Kline {
   time: number; // Unix timestamp in seconds
   open: number;
@@ -70,4 +415,38 @@ export interface Kline {
   low: number;
   close: number;
   volume: number;
-}
\ No newline at end of file
+  takerBuyVolume?: number; // Base volume bought by takers, where the venue publishes it
+}
+
+// WebSocket stream lifecycle as reported by the connection manager
+export type StreamStatus = 'connecting' | 'open' | 'reconnecting' | 'closed' | 'replay';
+
+export interface StreamHealth {
+  stream: string; // Stream name, e.g. btcusdt@aggTrade
+  exchange: ExchangeId;
+  symbol: string | null; // Upper-case symbol, null for market-wide streams
+  status: StreamStatus;
+  latencyMs: number | null; // Smoothed local clock minus event time `E`
+  lastMessageAt: number | null; // Local timestamp of the last frame
+  reconnects: number; // Reconnects since the stream was opened
+}
+
+// Raw frame captured from the stream hub, `t` is the local receive time in ms
+export interface RecordedFrame {
+  t: number;
+  stream: string;
+  data: any;
+}
+
+export interface RecordedSessionMeta {
+  id: string;
+  name: string;
+  startedAt: number;
+  endedAt: number;
+  frameCount: number;
+  streams: string[];
+}
+
+export interface RecordedSession extends RecordedSessionMeta {
+  frames: RecordedFrame[];
+}